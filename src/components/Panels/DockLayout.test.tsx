@@ -0,0 +1,109 @@
+import * as React from "react";
+import { useEffect } from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+import { DockLayout, DockLayoutApi, DockViewRegistry } from "./DockLayout";
+import { DockSplitNode } from "./dock-layout";
+
+/**
+ * The width of the dock layout
+ */
+const LAYOUT_WIDTH = 300;
+
+/**
+ * A view that counts how many times it has been mounted
+ */
+const CountedView: React.FC<{ mounts: string[]; viewId: string }> = ({
+  mounts,
+  viewId,
+}) => {
+  useEffect(() => {
+    mounts.push(viewId);
+  }, [mounts, viewId]);
+  return <div>{viewId}</div>;
+};
+
+describe("DockLayout", () => {
+  const layout: DockSplitNode = {
+    type: "split",
+    orientation: "horizontal",
+    children: ["a", "b", "c"].map((viewId) => ({ type: "view", viewId })),
+  };
+  let mounts: string[];
+  let views: DockViewRegistry;
+
+  beforeEach(() => {
+    const viewMounts: string[] = [];
+    mounts = viewMounts;
+    views = {};
+    for (const viewId of ["a", "b", "c", "d"]) {
+      views[viewId] = {
+        render: () => <CountedView mounts={viewMounts} viewId={viewId} />,
+      };
+    }
+
+    // --- Panels are as wide as their style says, relative to the layout
+    jest
+      .spyOn(HTMLElement.prototype, "offsetWidth", "get")
+      .mockImplementation(function (this: HTMLElement) {
+        const width = this.style.width;
+        return width.endsWith("%")
+          ? (parseFloat(width) * LAYOUT_WIDTH) / 100
+          : parseFloat(width) || 0;
+      });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("keeps the views mounted while views are docked", () => {
+    let api: DockLayoutApi | undefined;
+    render(
+      <DockLayout
+        layout={layout}
+        views={views}
+        registerApi={(newApi) => (api = newApi)}
+      />
+    );
+    expect(mounts).toEqual(["a", "b", "c"]);
+    act(() => api!.dockView("d", "right"));
+    expect(mounts).toEqual(["a", "b", "c", "d"]);
+    act(() => api!.closeView("b"));
+    expect(mounts).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("emits the pane sizes when moving the splitter is complete", () => {
+    const onLayoutChanged = jest.fn();
+    const { container } = render(
+      <DockLayout
+        layout={layout}
+        views={views}
+        onLayoutChanged={onLayoutChanged}
+      />
+    );
+    const splitter = Array.from(
+      container.querySelectorAll<HTMLElement>("div")
+    ).find((element) => element.style.cursor === "ew-resize")!;
+    fireEvent.mouseDown(splitter, { button: 0, clientX: 100 });
+    fireEvent.mouseMove(window, { clientX: 110 });
+    fireEvent.mouseMove(window, { clientX: 120 });
+    expect(onLayoutChanged).not.toHaveBeenCalled();
+    fireEvent.mouseUp(window);
+    expect(onLayoutChanged).toHaveBeenCalledTimes(1);
+    expect(onLayoutChanged.mock.calls[0][0].sizes).toEqual([120, 80, 100]);
+  });
+
+  it("sizes a two-pane split from the start", () => {
+    const onLayoutChanged = jest.fn();
+    const { getByRole } = render(
+      <DockLayout
+        layout={{ ...layout, children: layout.children.slice(0, 2) }}
+        views={views}
+        onLayoutChanged={onLayoutChanged}
+      />
+    );
+    const splitter = getByRole("separator");
+    expect(splitter.getAttribute("aria-valuenow")).toBe("150");
+    fireEvent.keyDown(splitter, { key: "ArrowRight" });
+    expect(onLayoutChanged.mock.calls[0][0].sizes).toEqual([160]);
+    expect(splitter.getAttribute("aria-valuenow")).toBe("160");
+  });
+});
@@ -0,0 +1,226 @@
+import * as React from "react";
+import {
+  CSSProperties,
+  PropsWithChildren,
+  ReactElement,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { Panel } from ".";
+import {
+  assignSplitIds,
+  DockLayoutNode,
+  DockPosition,
+  DockSplitNode,
+  insertView,
+  removeView,
+  updateLayoutNode,
+} from "./dock-layout";
+import { MultiSplitPanel } from "./MultiSplitPanel";
+import { SplitPanel } from "./SplitPanel";
+
+/**
+ * Describes a view that can be displayed in the dock layout
+ */
+export type DockViewDefinition = {
+  render: () => ReactElement;
+  minSize?: number | string;
+  maxSize?: number | string;
+};
+
+/**
+ * The views available for the dock layout by their IDs
+ */
+export type DockViewRegistry = Record<string, DockViewDefinition>;
+
+/**
+ * Represents the API the hosts of a dock layout can invoke
+ */
+export type DockLayoutApi = {
+  /**
+   * Gets the current layout tree
+   */
+  getLayout: () => DockLayoutNode | null;
+
+  /**
+   * Replaces the entire layout tree
+   */
+  setLayout: (layout: DockLayoutNode | null) => void;
+
+  /**
+   * Moves a view to an edge of the target view. A view that is not in the
+   * layout yet splits the target view.
+   */
+  moveView: (
+    viewId: string,
+    targetViewId: string,
+    position: DockPosition
+  ) => void;
+
+  /**
+   * Removes a view from the layout
+   */
+  closeView: (viewId: string) => void;
+
+  /**
+   * Docks a view to an edge of the entire layout
+   */
+  dockView: (viewId: string, position: DockPosition) => void;
+};
+
+/**
+ * Properties of the dock layout
+ */
+export type DockLayoutProps = {
+  layout: DockLayoutNode | null;
+  views: DockViewRegistry;
+  splitterSize?: number;
+  style?: CSSProperties;
+  registerApi?: (api: DockLayoutApi) => void;
+  onLayoutChanged?: (layout: DockLayoutNode | null) => void;
+};
+
+/**
+ * A layout manager that displays the views of a serializable layout tree
+ */
+export const DockLayout: React.FC<DockLayoutProps> = ({
+  layout,
+  views,
+  splitterSize,
+  style,
+  registerApi,
+  onLayoutChanged,
+}: PropsWithChildren<DockLayoutProps>) => {
+  // --- Component state to trigger rendering
+  const [root, setRoot] = useState(() => assignSplitIds(layout));
+
+  // --- Other state information
+  const mounted = useRef(false);
+  const rootValue = useRef(root);
+  const changeHandler = useRef(onLayoutChanged);
+  changeHandler.current = onLayoutChanged;
+
+  // --- Follow the layout set by the host
+  useEffect(() => {
+    if (layout !== rootValue.current) {
+      const newRoot = assignSplitIds(layout);
+      rootValue.current = newRoot;
+      setRoot(newRoot);
+    }
+  }, [layout]);
+
+  useEffect(() => {
+    if (!mounted.current) {
+      registerApi?.({
+        getLayout: () => rootValue.current,
+        setLayout: (layout) => applyLayout(layout),
+        moveView: (viewId, targetViewId, position) =>
+          applyLayout(
+            insertView(rootValue.current, viewId, position, targetViewId)
+          ),
+        closeView: (viewId) =>
+          applyLayout(removeView(rootValue.current, viewId)),
+        dockView: (viewId, position) =>
+          applyLayout(insertView(rootValue.current, viewId, position)),
+      });
+      mounted.current = true;
+    }
+  });
+
+  return <Panel style={style}>{root ? renderNode(root, []) : null}</Panel>;
+
+  /**
+   * Renders the specified layout node
+   * @param node Node to render
+   * @param path The path of the node
+   */
+  function renderNode(node: DockLayoutNode, path: number[]): ReactElement {
+    if (node.type === "view") {
+      return <Panel key={node.viewId}>{views[node.viewId]?.render()}</Panel>;
+    }
+    const horizontal = node.orientation === "horizontal";
+    if (node.children.length === 1) {
+      return renderNode(node.children[0], [...path, 0]);
+    }
+    if (node.children.length === 2) {
+      const [first, second] = node.children;
+      return (
+        <SplitPanel
+          key={getNodeKey(node)}
+          horizontal={horizontal}
+          splitterSize={splitterSize}
+          panel1={renderNode(first, [...path, 0])}
+          panel1MinSize={getViewDefinition(first)?.minSize}
+          panel1MaxSize={getViewDefinition(first)?.maxSize}
+          panel2={renderNode(second, [...path, 1])}
+          panel2MinSize={getViewDefinition(second)?.minSize}
+          panel2MaxSize={getViewDefinition(second)?.maxSize}
+          size={node.sizes?.[0] ?? "50%"}
+          onSizeChange={(newSize) => updateSizes(path, [newSize])}
+        />
+      );
+    }
+    return (
+      <MultiSplitPanel
+        key={getNodeKey(node)}
+        horizontal={horizontal}
+        splitterSize={splitterSize}
+        panes={node.children.map((child, index) => ({
+          id: getNodeKey(child),
+          panel: renderNode(child, [...path, index]),
+          minSize: getViewDefinition(child)?.minSize,
+          maxSize: getViewDefinition(child)?.maxSize,
+          initialSize: node.sizes?.[index],
+        }))}
+        onResizeEnd={(sizes) => updateSizes(path, sizes)}
+      />
+    );
+  }
+
+  /**
+   * Gets the definition of a view node
+   * @param node Layout node
+   */
+  function getViewDefinition(
+    node: DockLayoutNode
+  ): DockViewDefinition | undefined {
+    return node.type === "view" ? views[node.viewId] : undefined;
+  }
+
+  /**
+   * Stores the new sizes of a split node
+   * @param path The path of the split node
+   * @param sizes New sizes
+   */
+  function updateSizes(path: number[], sizes: number[]): void {
+    if (!rootValue.current) {
+      return;
+    }
+    applyLayout(
+      updateLayoutNode(rootValue.current, path, (node) => ({
+        ...(node as DockSplitNode),
+        sizes,
+      }))
+    );
+  }
+
+  /**
+   * Applies the new layout and notifies the host
+   * @param newLayout The new layout tree
+   */
+  function applyLayout(newLayout: DockLayoutNode | null): void {
+    const newRoot = assignSplitIds(newLayout);
+    rootValue.current = newRoot;
+    setRoot(newRoot);
+    changeHandler.current?.(newRoot);
+  }
+};
+
+/**
+ * Gets a key that identifies a layout node while its children change
+ * @param node Layout node
+ */
+function getNodeKey(node: DockLayoutNode): string {
+  return node.type === "view" ? `view:${node.viewId}` : `split:${node.id}`;
+}
@@ -0,0 +1,110 @@
+import * as React from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+import { FloatingScrollbar, ScrollbarApi } from "./FloatingScrollbar";
+
+/**
+ * The height of the scrollbar's host
+ */
+const HOST_SIZE = 200;
+
+/**
+ * The scrollable height of the host; the handle moves a million pixels per
+ * pixel
+ */
+const SCROLL_SIZE = 200_000_000;
+
+/**
+ * Renders a vertical scrollbar of a huge host
+ */
+function renderScrollbar(scrollPosition = 0) {
+  let api: ScrollbarApi | undefined;
+  const moved = jest.fn();
+  const result = render(
+    <FloatingScrollbar
+      direction="vertical"
+      barSize={16}
+      stepSize={20}
+      registerApi={(newApi) => (api = newApi)}
+      moved={moved}
+    />
+  );
+  act(() =>
+    api!.signHostDimension({
+      hostLeft: 0,
+      hostTop: 0,
+      hostSize: HOST_SIZE,
+      hostCrossSize: 100,
+      hostScrollSize: SCROLL_SIZE,
+      hostScrollPos: scrollPosition,
+    })
+  );
+  const bar = result.container.firstChild as HTMLElement;
+  return {
+    ...result,
+    moved,
+    bar,
+    handle: bar.firstChild as HTMLElement,
+  };
+}
+
+describe("FloatingScrollbar", () => {
+  beforeEach(() => {
+    jest.spyOn(HTMLElement.prototype, "getBoundingClientRect").mockReturnValue({
+      top: 0,
+      bottom: HOST_SIZE,
+      height: HOST_SIZE,
+      left: 0,
+      right: 16,
+      width: 16,
+      x: 0,
+      y: 0,
+      toJSON: () => {},
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("scrolls by a page when the track is clicked", () => {
+    const { bar, moved } = renderScrollbar(1000);
+    fireEvent.mouseDown(bar, { button: 0, clientY: 150 });
+    expect(moved).toHaveBeenLastCalledWith(1000 + HOST_SIZE);
+    fireEvent.mouseDown(bar, { button: 0, clientY: 0 });
+    expect(moved).toHaveBeenLastCalledWith(1000 - HOST_SIZE);
+  });
+
+  it("does not scroll beyond the ends when the track is clicked", () => {
+    const { bar, moved } = renderScrollbar(100);
+    fireEvent.mouseDown(bar, { button: 0, clientY: 0 });
+    expect(moved).toHaveBeenLastCalledWith(0);
+  });
+
+  it("moves the handle with the pointer", () => {
+    const { handle, moved } = renderScrollbar();
+    fireEvent.mouseDown(handle, { button: 0, clientY: 5 });
+    fireEvent.mouseMove(window, { clientY: 100 });
+    expect(moved).toHaveBeenLastCalledWith(
+      (95 * (SCROLL_SIZE - HOST_SIZE)) / (HOST_SIZE - 10)
+    );
+    fireEvent.mouseMove(window, { clientY: 500 });
+    expect(moved).toHaveBeenLastCalledWith(SCROLL_SIZE - HOST_SIZE);
+    fireEvent.mouseUp(window);
+  });
+
+  it("scrolls by steps while Shift is held", () => {
+    const { handle, moved } = renderScrollbar(1000);
+    fireEvent.mouseDown(handle, { button: 0, clientY: 5, shiftKey: true });
+    fireEvent.mouseMove(window, { clientY: 8, shiftKey: true });
+    expect(moved).toHaveBeenLastCalledWith(1060);
+    fireEvent.mouseMove(window, { clientY: 6, shiftKey: true });
+    expect(moved).toHaveBeenLastCalledWith(1020);
+
+    // --- Releasing Shift continues from the current position
+    fireEvent.mouseMove(window, { clientY: 10 });
+    expect(moved).toHaveBeenLastCalledWith(1020);
+    fireEvent.mouseMove(window, { clientY: 11 });
+    expect(moved).toHaveBeenLastCalledWith(
+      1020 + (SCROLL_SIZE - HOST_SIZE) / (HOST_SIZE - 10)
+    );
+    fireEvent.mouseUp(window);
+  });
+});
@@ -12,6 +12,11 @@ import {
  */
 const MIN_HANDLE_SIZE = 10;
 
+/**
+ * The default scroll distance of a fine step
+ */
+const DEFAULT_STEP_SIZE = 20;
+
 /**
  * The orientation of the scrollbar element
  */
@@ -44,15 +49,22 @@ export type ScrollbarApi = {
 type FloatingScrollbarProps = {
   direction: ElementOrientation;
   barSize: number;
+  stepSize?: number;
   forceShow?: boolean;
   registerApi?: (api: ScrollbarApi) => void;
   sizing?: (isSizing: boolean) => void;
   moved?: (newPosition: number) => void;
 };
 
+/**
+ * A scrollbar displayed over its host. Clicking the track scrolls by a page;
+ * dragging the handle with Shift held scrolls by a step per pixel, so that
+ * the position can be set precisely even when the scrollable size is huge.
+ */
 export const FloatingScrollbar: React.FC<FloatingScrollbarProps> = ({
   direction,
   barSize,
+  stepSize = DEFAULT_STEP_SIZE,
   forceShow = false,
   registerApi,
   sizing,
@@ -73,6 +85,8 @@ export const FloatingScrollbar: React.FC<FloatingScrollbarProps> = ({
   const mounted = useRef(false);
   const gripPosition = useRef(0);
   const startPosition = useRef(0);
+  const lastPosition = useRef(0);
+  const fineMode = useRef(false);
   const dims = useRef<ScrollBarData>();
 
   // --- Bind these functions to the current context
@@ -113,6 +127,11 @@ export const FloatingScrollbar: React.FC<FloatingScrollbarProps> = ({
       style={barStyle}
       onMouseEnter={() => setPointed(true)}
       onMouseLeave={() => setPointed(false)}
+      onMouseDown={(ev) => {
+        if (ev.button === 0) {
+          scrollPage(ev);
+        }
+      }}
     >
       <div
         style={handleStyle}
@@ -191,12 +210,42 @@ export const FloatingScrollbar: React.FC<FloatingScrollbarProps> = ({
     setPointed(show);
   }
 
+  /**
+   * Scrolls by a page towards the position clicked on the track
+   */
+  function scrollPage(e: React.MouseEvent): void {
+    const data = dims.current;
+    if (!data) {
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clickPosition =
+      direction === "horizontal" ? e.clientX - rect.left : e.clientY - rect.top;
+    const handleStart = direction === "horizontal" ? handleLeft : handleTop;
+    const handleSize = direction === "horizontal" ? handleWidth : handleHeight;
+    if (clickPosition < handleStart) {
+      moved?.(clampPosition(data.hostScrollPos - data.hostSize));
+    } else if (clickPosition > handleStart + handleSize) {
+      moved?.(clampPosition(data.hostScrollPos + data.hostSize));
+    }
+  }
+
+  /**
+   * Keeps a scroll position within the scrollable range
+   */
+  function clampPosition(position: number): number {
+    const range = dims.current.hostScrollSize - dims.current.hostSize;
+    return Math.max(0, Math.min(position, range));
+  }
+
   /**
    * Starts resizing this panel
    */
   function startResize(e: React.MouseEvent): void {
     gripPosition.current = direction === "horizontal" ? e.clientX : e.clientY;
-    startPosition.current = direction === "horizontal" ? handleLeft : handleTop;
+    startPosition.current = dims.current?.hostScrollPos ?? 0;
+    lastPosition.current = startPosition.current;
+    fineMode.current = e.shiftKey;
     window.addEventListener("mouseup", endResizeFunc as any);
     window.addEventListener("touchend", endResizeFunc as any);
     window.addEventListener("touchcancel", endResizeFunc as any);
@@ -221,17 +270,29 @@ export const FloatingScrollbar: React.FC<FloatingScrollbarProps> = ({
    * Change the size of the element
    */
   function move(e: MouseEvent): void {
-    const delta =
-      (direction === "horizontal" ? e.clientX : e.clientY) -
-      gripPosition.current;
+    const pointerPosition = direction === "horizontal" ? e.clientX : e.clientY;
+
+    // --- Continue from the current position when Shift is pressed or released
+    if (e.shiftKey !== fineMode.current) {
+      fineMode.current = e.shiftKey;
+      gripPosition.current = pointerPosition;
+      startPosition.current = lastPosition.current;
+    }
     const maxPosition =
       dims.current.hostSize -
       (direction === "horizontal" ? handleWidth : handleHeight);
-    var newPosition = Math.max(0, startPosition.current + delta);
-    newPosition = Math.min(newPosition, maxPosition);
-    var newScrollPosition =
-      (newPosition * (dims.current.hostScrollSize - dims.current.hostSize)) /
-      maxPosition;
+    if (maxPosition <= 0) {
+      return;
+    }
+
+    // --- In fine mode, a pixel is a step; otherwise, the handle follows the
+    // --- pointer
+    const scrollRange = dims.current.hostScrollSize - dims.current.hostSize;
+    const ratio = fineMode.current ? stepSize : scrollRange / maxPosition;
+    const newScrollPosition = clampPosition(
+      startPosition.current + (pointerPosition - gripPosition.current) * ratio
+    );
+    lastPosition.current = newScrollPosition;
     moved?.(newScrollPosition);
   }
 };
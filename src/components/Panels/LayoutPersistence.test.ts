@@ -0,0 +1,86 @@
+import {
+  createLayoutStore,
+  createMemoryLayoutStorage,
+  renamePanelState,
+} from "./LayoutPersistence";
+
+describe("createLayoutStore", () => {
+  it("saves and restores panel states", () => {
+    const storage = createMemoryLayoutStorage();
+    const store = createLayoutStore({ storage, key: "test" });
+    store.savePanelState("split", { size: 120 });
+    store.savePanelState("split", { collapsedPanel: 1 });
+
+    const restored = createLayoutStore({ storage, key: "test" });
+    expect(restored.getPanelState("split")).toEqual({
+      size: 120,
+      collapsedPanel: 1,
+    });
+    expect(restored.getPanelState("other")).toBeUndefined();
+  });
+
+  it("clears the saved layout", () => {
+    const storage = createMemoryLayoutStorage();
+    const store = createLayoutStore({ storage });
+    store.savePanelState("split", { size: 120 });
+    store.clear();
+    expect(store.getPanelState("split")).toBeUndefined();
+    expect(createLayoutStore({ storage }).getPanelState("split")).toBe(
+      undefined
+    );
+  });
+
+  it("drops invalid layouts", () => {
+    const storage = createMemoryLayoutStorage();
+    storage.setItem("test", "{not json");
+    expect(
+      createLayoutStore({ storage, key: "test" }).getPanelState("split")
+    ).toBeUndefined();
+    storage.setItem("test", JSON.stringify({ panels: {} }));
+    expect(
+      createLayoutStore({ storage, key: "test" }).getPanelState("split")
+    ).toBeUndefined();
+  });
+
+  it("migrates layouts saved with an earlier version", () => {
+    const storage = createMemoryLayoutStorage();
+    createLayoutStore({ storage, version: 1 }).savePanelState("old", {
+      size: 50,
+    });
+    const migrate = jest.fn((layout, _fromVersion) =>
+      renamePanelState(layout, "old", "new")
+    );
+    const store = createLayoutStore({ storage, version: 2, migrate });
+    expect(store.getPanelState("new")).toEqual({ size: 50 });
+    expect(store.getPanelState("old")).toBeUndefined();
+    expect(migrate).toHaveBeenCalledWith(expect.anything(), 1);
+
+    // --- The migrated layout is saved with the new version
+    store.savePanelState("new", { size: 60 });
+    expect(JSON.parse(storage.getItem("panel-layout")!).version).toBe(2);
+  });
+
+  it("drops layouts that cannot be migrated", () => {
+    const storage = createMemoryLayoutStorage();
+    createLayoutStore({ storage, version: 3 }).savePanelState("split", {
+      size: 50,
+    });
+
+    // --- Newer version
+    expect(
+      createLayoutStore({ storage, version: 2 }).getPanelState("split")
+    ).toBeUndefined();
+
+    // --- No migration, or the migration rejects the layout
+    expect(
+      createLayoutStore({ storage, version: 4 }).getPanelState("split")
+    ).toBeUndefined();
+    expect(
+      createLayoutStore({
+        storage,
+        version: 4,
+        migrate: () => null,
+      }).getPanelState("split")
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,258 @@
+import * as React from "react";
+import { createContext, PropsWithChildren, useContext, useState } from "react";
+
+/**
+ * The default key the layout is saved with
+ */
+const DEFAULT_LAYOUT_KEY = "panel-layout";
+
+/**
+ * The storage backend of the saved layout
+ */
+export type LayoutStorage = {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+};
+
+/**
+ * The saved state of a particular panel
+ */
+export type PanelLayoutState = {
+  size?: number;
+  restoreSize?: number;
+  sizes?: number[];
+  collapsedPanel?: 0 | 1 | 2;
+  showPanel1?: boolean;
+  showPanel2?: boolean;
+};
+
+/**
+ * The saved layout of all panels
+ */
+export type SavedLayout = {
+  version: number;
+  panels: Record<string, PanelLayoutState>;
+};
+
+/**
+ * Migrates a saved layout from an earlier format version. Returns null when
+ * the saved layout should be dropped.
+ */
+export type LayoutMigration = (
+  layout: SavedLayout,
+  fromVersion: number
+) => SavedLayout | null;
+
+/**
+ * Options of the layout store
+ */
+export type LayoutStoreOptions = {
+  /**
+   * Storage backend (localStorage by default)
+   */
+  storage?: LayoutStorage;
+
+  /**
+   * The key to save the layout with
+   */
+  key?: string;
+
+  /**
+   * The current version of the layout format
+   */
+  version?: number;
+
+  /**
+   * Function to migrate layouts saved with an earlier version
+   */
+  migrate?: LayoutMigration;
+};
+
+/**
+ * Represents the API of the layout store
+ */
+export type LayoutStore = {
+  /**
+   * Gets the saved state of the specified panel
+   */
+  getPanelState: (id: string) => PanelLayoutState | undefined;
+
+  /**
+   * Saves the state of the specified panel
+   */
+  savePanelState: (id: string, state: PanelLayoutState) => void;
+
+  /**
+   * Removes the entire saved layout
+   */
+  clear: () => void;
+};
+
+/**
+ * Creates a storage backend that uses the browser's localStorage. Falls back
+ * to in-memory storage when localStorage is not available.
+ */
+export function createLocalLayoutStorage(): LayoutStorage {
+  try {
+    if (typeof window !== "undefined" && window.localStorage) {
+      return window.localStorage;
+    }
+  } catch {
+    // --- Access to localStorage is denied
+  }
+  return createMemoryLayoutStorage();
+}
+
+/**
+ * Creates a storage backend that keeps the layout in memory
+ */
+export function createMemoryLayoutStorage(): LayoutStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * Creates a layout store with the specified options
+ */
+export function createLayoutStore({
+  storage = createLocalLayoutStorage(),
+  key = DEFAULT_LAYOUT_KEY,
+  version = 1,
+  migrate,
+}: LayoutStoreOptions = {}): LayoutStore {
+  let layout: SavedLayout | undefined;
+
+  return {
+    getPanelState: (id) => getLayout().panels[id],
+    savePanelState: (id, state) => {
+      const current = getLayout();
+      current.panels[id] = { ...current.panels[id], ...state };
+      try {
+        storage.setItem(key, JSON.stringify(current));
+      } catch {
+        // --- The storage is full or not available, keep the layout in memory
+      }
+    },
+    clear: () => {
+      layout = { version, panels: {} };
+      storage.removeItem(key);
+    },
+  };
+
+  /**
+   * Gets the layout, loads it at the first access
+   */
+  function getLayout(): SavedLayout {
+    if (!layout) {
+      layout = loadLayout() ?? { version, panels: {} };
+    }
+    return layout;
+  }
+
+  /**
+   * Loads and migrates the saved layout
+   */
+  function loadLayout(): SavedLayout | null {
+    let saved: SavedLayout;
+    try {
+      const serialized = storage.getItem(key);
+      if (!serialized) {
+        return null;
+      }
+      saved = JSON.parse(serialized);
+    } catch {
+      // --- Drop invalid layouts
+      return null;
+    }
+    if (
+      !saved ||
+      typeof saved.version !== "number" ||
+      typeof saved.panels !== "object"
+    ) {
+      return null;
+    }
+    if (saved.version === version) {
+      return saved;
+    }
+
+    // --- Layouts saved with a newer version cannot be migrated
+    if (saved.version > version || !migrate) {
+      return null;
+    }
+    const migrated = migrate(saved, saved.version);
+    return migrated ? { ...migrated, version } : null;
+  }
+}
+
+/**
+ * Renames a panel in a saved layout; use it in layout migrations.
+ * @param layout Layout to change
+ * @param oldId The former ID of the panel
+ * @param newId The new ID of the panel
+ * @returns The layout with the renamed panel
+ */
+export function renamePanelState(
+  layout: SavedLayout,
+  oldId: string,
+  newId: string
+): SavedLayout {
+  const panels = { ...layout.panels };
+  if (panels[oldId]) {
+    panels[newId] = panels[oldId];
+    delete panels[oldId];
+  }
+  return { ...layout, panels };
+}
+
+/**
+ * The layout store available for the panels
+ */
+const LayoutStoreContext = createContext<LayoutStore | undefined>(undefined);
+
+/**
+ * Properties of the layout persistence provider
+ */
+type LayoutPersistenceProviderProps = {
+  store: LayoutStore;
+};
+
+/**
+ * Panels with an `id` within this component save and restore their layout
+ * with the specified store
+ */
+export const LayoutPersistenceProvider: React.FC<LayoutPersistenceProviderProps> =
+  ({ store, children }: PropsWithChildren<LayoutPersistenceProviderProps>) => {
+    return (
+      <LayoutStoreContext.Provider value={store}>
+        {children}
+      </LayoutStoreContext.Provider>
+    );
+  };
+
+/**
+ * Gets the layout store of the closest layout persistence provider
+ */
+export function useLayoutStore(): LayoutStore | undefined {
+  return useContext(LayoutStoreContext);
+}
+
+/**
+ * Gets the state of the specified panel saved when the component was mounted
+ * @param id Panel ID
+ */
+export function useSavedPanelState(id?: string): PanelLayoutState | undefined {
+  const store = useLayoutStore();
+  const [saved] = useState(() =>
+    id ? store?.getPanelState(id) : undefined
+  );
+  return saved;
+}
@@ -0,0 +1,150 @@
+import * as React from "react";
+import { fireEvent, render } from "@testing-library/react";
+import {
+  createLayoutStore,
+  createMemoryLayoutStorage,
+  LayoutPersistenceProvider,
+  LayoutStore,
+} from "./LayoutPersistence";
+import {
+  MultiSplitPanel,
+  MultiSplitPanelProperties,
+  SplitPaneDefinition,
+} from "./MultiSplitPanel";
+
+/**
+ * The height of the panel's container
+ */
+const CONTAINER_SIZE = 400;
+
+/**
+ * Creates four panes; the specified properties are added to them
+ */
+function createPanes(
+  ...extra: Partial<SplitPaneDefinition>[]
+): SplitPaneDefinition[] {
+  return [0, 1, 2, 3].map((index) => ({
+    id: `pane${index}`,
+    panel: <div>{index}</div>,
+    ...extra[index],
+  }));
+}
+
+/**
+ * Renders a vertical multi-split panel
+ */
+function renderPanel(
+  props: Partial<MultiSplitPanelProperties> = {},
+  store?: LayoutStore
+) {
+  const panel = <MultiSplitPanel panes={createPanes()} {...props} />;
+  const result = render(
+    store ? (
+      <LayoutPersistenceProvider store={store}>
+        {panel}
+      </LayoutPersistenceProvider>
+    ) : (
+      panel
+    )
+  );
+  return {
+    ...result,
+    splitters: () =>
+      Array.from(result.container.querySelectorAll<HTMLElement>("div")).filter(
+        (element) => element.style.cursor === "ns-resize"
+      ),
+    paneSizes: () =>
+      Array.from(
+        (result.container.firstChild as HTMLElement).children,
+        (pane) => (pane as HTMLElement).style.height
+      ),
+  };
+}
+
+/**
+ * Drags a splitter by the specified distance
+ */
+function dragSplitter(splitter: HTMLElement, delta: number): void {
+  fireEvent.mouseDown(splitter, { button: 0, clientY: 100 });
+  fireEvent.mouseMove(window, { clientY: 100 + delta });
+}
+
+describe("MultiSplitPanel", () => {
+  beforeEach(() => {
+    // --- Panes are as high as their style says, relative to the container
+    jest
+      .spyOn(HTMLElement.prototype, "offsetHeight", "get")
+      .mockImplementation(function (this: HTMLElement) {
+        const height = this.style.height;
+        return height.endsWith("%")
+          ? (parseFloat(height) * CONTAINER_SIZE) / 100
+          : parseFloat(height) || 0;
+      });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("shares the space not used by the initial sizes", () => {
+    const { paneSizes, splitters } = renderPanel({
+      panes: createPanes({ initialSize: 100 }, { initialSize: "25%" }),
+    });
+    expect(paneSizes()).toEqual(["100px", "100px", "100px", "100%"]);
+    expect(splitters()).toHaveLength(3);
+  });
+
+  it("pushes the neighbours while they can shrink", () => {
+    const resized = jest.fn();
+    const { splitters } = renderPanel({
+      panes: createPanes({}, { minSize: 50 }, { minSize: 50 }),
+      resized,
+    });
+    dragSplitter(splitters()[0], 120);
+    expect(resized).toHaveBeenLastCalledWith([220, 50, 50, 80]);
+
+    // --- No pane can shrink anymore
+    fireEvent.mouseMove(window, { clientY: 500 });
+    expect(resized).toHaveBeenLastCalledWith([300, 50, 50, 0]);
+    fireEvent.mouseUp(window);
+  });
+
+  it("grows the panes only up to their maximum size", () => {
+    const resized = jest.fn();
+    const { splitters } = renderPanel({
+      panes: createPanes({ maxSize: 180 }, { minSize: 50 }),
+      resized,
+    });
+    dragSplitter(splitters()[0], 120);
+    expect(resized).toHaveBeenLastCalledWith([180, 50, 70, 100]);
+    fireEvent.mouseUp(window);
+
+    // --- The panes before the splitter shrink, nearest first
+    dragSplitter(splitters()[1], -300);
+    expect(resized).toHaveBeenLastCalledWith([0, 50, 250, 100]);
+    fireEvent.mouseUp(window);
+  });
+
+  it("saves the sizes when moving the splitter is complete", () => {
+    const store = createLayoutStore({ storage: createMemoryLayoutStorage() });
+    const { splitters, unmount } = renderPanel({ id: "multi" }, store);
+    dragSplitter(splitters()[1], 50);
+    expect(store.getPanelState("multi")).toBeUndefined();
+    fireEvent.mouseUp(window);
+    expect(store.getPanelState("multi")).toEqual({
+      sizes: [100, 150, 50, 100],
+    });
+    unmount();
+
+    // --- The saved sizes are restored
+    const { paneSizes } = renderPanel({ id: "multi" }, store);
+    expect(paneSizes()).toEqual(["100px", "150px", "50px", "100%"]);
+  });
+
+  it("does not save the sizes without an ID", () => {
+    const store = createLayoutStore({ storage: createMemoryLayoutStorage() });
+    const savePanelState = jest.spyOn(store, "savePanelState");
+    const { splitters } = renderPanel({}, store);
+    dragSplitter(splitters()[0], 20);
+    fireEvent.mouseUp(window);
+    expect(savePanelState).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,387 @@
+import * as React from "react";
+import {
+  CSSProperties,
+  PropsWithChildren,
+  ReactElement,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import { Panel } from ".";
+import { useResizeObserver } from "../../utils/useResizeObserver";
+import { ColumnPanel } from "./ColumnPanel";
+import { useLayoutStore, useSavedPanelState } from "./LayoutPersistence";
+import { resolvePanelSize } from "./panel-common";
+import { RowPanel } from "./RowPanel";
+
+/**
+ * Describes a single pane of a MultiSplitPanel
+ */
+export type SplitPaneDefinition = {
+  id?: string;
+  panel: ReactElement;
+  minSize?: number | string;
+  maxSize?: number | string;
+  initialSize?: number | string;
+};
+
+/**
+ * Properties of a MultiSplitPanel
+ */
+export type MultiSplitPanelProperties = {
+  id?: string;
+  panes: SplitPaneDefinition[];
+  horizontal?: boolean;
+  splitterSize?: number;
+  style?: CSSProperties;
+  resized?: (sizes: number[]) => void;
+  onResizeEnd?: (sizes: number[]) => void;
+};
+
+/**
+ * A split panel with any number of child panels and a movable splitter
+ * between each pair of neighbouring panels
+ */
+export const MultiSplitPanel: React.FC<MultiSplitPanelProperties> = ({
+  id,
+  panes,
+  horizontal = false,
+  splitterSize = 6,
+  style,
+  resized,
+  onResizeEnd,
+}: PropsWithChildren<MultiSplitPanelProperties>) => {
+  // --- The layout saved for this panel
+  const layoutStore = useLayoutStore();
+  const savedState = useSavedPanelState(id);
+
+  // --- Component state to trigger rendering
+  const [paneSizes, setPaneSizes] = useState<number[]>();
+
+  // --- State of the floating splitters
+  const [pointedIndex, setPointedIndex] = useState(-1);
+  const [draggedIndex, setDraggedIndex] = useState(-1);
+  const [splitterShift, setSplitterShift] = useState(0);
+  const [splitterOrigin, setSplitterOrigin] = useState(0);
+
+  // --- Other state information
+  const containerRef = useRef<HTMLDivElement>(null);
+  const gripPosition = useRef(0);
+  const gripSizes = useRef<number[]>([]);
+  const gripIndex = useRef(-1);
+  const movedSizes = useRef<number[]>();
+
+  // --- Obtain the container's cross size
+  const crossSize = horizontal
+    ? containerRef.current?.offsetHeight ?? 0
+    : containerRef.current?.offsetWidth ?? 0;
+
+  // --- Bind functions (used by window events)
+  const _move = (e: MouseEvent) => move(e);
+  const _endMove = () => endMove();
+  const _onResized = () => onResized();
+
+  // --- Respond to resizing the main container
+  useResizeObserver({
+    callback: _onResized,
+    element: containerRef,
+  });
+
+  // --- Set up initial container and panel sizes
+  useLayoutEffect(() => {
+    _onResized();
+  });
+
+  return (
+    <>
+      <Panel hostRef={containerRef} forColumns={!!horizontal} style={style}>
+        {panes.map((pane, index) => {
+          // --- The last pane takes the remaining space
+          const size =
+            paneSizes && index < panes.length - 1
+              ? paneSizes[index]
+              : undefined;
+          return horizontal ? (
+            <ColumnPanel key={pane.id ?? index} size={size}>
+              {pane.panel}
+            </ColumnPanel>
+          ) : (
+            <RowPanel key={pane.id ?? index} size={size}>
+              {pane.panel}
+            </RowPanel>
+          );
+        })}
+      </Panel>
+      {paneSizes &&
+        panes.slice(1).map((_, index) => (
+          <div
+            key={index}
+            style={getSplitterStyle(index)}
+            onMouseEnter={() => setPointedIndex(index)}
+            onMouseLeave={() => setPointedIndex(-1)}
+            onMouseDown={(e) => {
+              e.stopPropagation();
+              e.preventDefault();
+              if (e.button === 0) {
+                startMove(e, index);
+              }
+            }}
+          ></div>
+        ))}
+    </>
+  );
+
+  /**
+   * Gets the style of the splitter with the specified index
+   * @param index Splitter index
+   */
+  function getSplitterStyle(index: number): CSSProperties {
+    const highlighted = pointedIndex === index || draggedIndex === index;
+    const position = splitterOrigin + getSplitterOffset(paneSizes, index);
+    return {
+      position: "absolute",
+      top: horizontal ? splitterShift : position,
+      left: horizontal ? position : splitterShift,
+      height: horizontal ? crossSize : splitterSize,
+      width: horizontal ? splitterSize : crossSize,
+      backgroundColor: highlighted ? "cyan" : "transparent",
+      opacity: highlighted ? 1 : 0,
+      cursor: horizontal ? "ew-resize" : "ns-resize",
+      transitionProperty: "background-color",
+      transitionDelay: "0.25s",
+      transitionDuration: "0.25s",
+      zIndex: 100,
+      marginLeft: horizontal ? -splitterSize / 2 : 0,
+      marginTop: horizontal ? 0 : -splitterSize / 2,
+    };
+  }
+
+  /**
+   * Calculate the new pane sizes when the container is resized
+   * (or set up initially)
+   */
+  function onResized(): void {
+    // --- Determine the container size
+    const containerSize =
+      (horizontal
+        ? containerRef.current?.offsetWidth
+        : containerRef.current?.offsetHeight) ?? -1;
+    if (containerSize < 0 || panes.length === 0) {
+      return;
+    }
+
+    // --- Calculate splitter positions
+    const rect = containerRef.current?.getBoundingClientRect();
+    setSplitterShift(
+      (horizontal
+        ? containerRef.current?.offsetTop
+        : containerRef.current?.offsetLeft) ?? 0
+    );
+    setSplitterOrigin((horizontal ? rect?.left : rect?.top) ?? 0);
+
+    // --- Keep the current sizes unless the panes have changed
+    const savedSizes = savedState?.sizes;
+    const sizes =
+      paneSizes && paneSizes.length === panes.length
+        ? fitSizes(paneSizes, containerSize)
+        : !paneSizes && savedSizes && savedSizes.length === panes.length
+        ? fitSizes(savedSizes, containerSize)
+        : fitSizes(getInitialSizes(containerSize), containerSize);
+
+    // --- Avoid re-rendering when nothing has changed
+    if (
+      !paneSizes ||
+      paneSizes.length !== sizes.length ||
+      paneSizes.some((size, index) => Math.abs(size - sizes[index]) > 0.5)
+    ) {
+      setPaneSizes(sizes);
+    }
+  }
+
+  /**
+   * Calculates the initial pane sizes. Panes without an initial size
+   * share the remaining space equally.
+   * @param containerSize The container's size
+   */
+  function getInitialSizes(containerSize: number): number[] {
+    const sizes = panes.map((pane) =>
+      pane.initialSize === undefined
+        ? -1
+        : resolvePanelSize(containerSize, 0, pane.initialSize)
+    );
+    const fixedSize = sizes
+      .filter((size) => size >= 0)
+      .reduce((a, b) => a + b, 0);
+    const flexCount = sizes.filter((size) => size < 0).length;
+    const flexSize =
+      flexCount > 0 ? Math.max(0, containerSize - fixedSize) / flexCount : 0;
+    return sizes.map((size) => (size < 0 ? flexSize : size));
+  }
+
+  /**
+   * Gets the minimum and maximum sizes of the panes
+   * @param containerSize The container's size
+   */
+  function getLimits(containerSize: number): [number[], number[]] {
+    const minSizes = panes.map((pane) =>
+      resolvePanelSize(containerSize, 0, pane.minSize ?? 0)
+    );
+    const maxSizes = panes.map((pane) =>
+      pane.maxSize === undefined
+        ? Infinity
+        : resolvePanelSize(containerSize, Infinity, pane.maxSize)
+    );
+    return [minSizes, maxSizes];
+  }
+
+  /**
+   * Clamps the pane sizes into their range and makes them fill the container.
+   * The difference is absorbed starting from the last pane.
+   * @param sizes Pane sizes to fit
+   * @param containerSize The container's size
+   */
+  function fitSizes(sizes: number[], containerSize: number): number[] {
+    const [minSizes, maxSizes] = getLimits(containerSize);
+    const result = sizes.map((size, index) =>
+      Math.min(Math.max(size, minSizes[index]), maxSizes[index])
+    );
+    let diff = containerSize - result.reduce((a, b) => a + b, 0);
+    for (let i = result.length - 1; i >= 0 && Math.abs(diff) > 0.5; i--) {
+      const newSize = Math.min(
+        Math.max(result[i] + diff, minSizes[i]),
+        maxSizes[i]
+      );
+      diff -= newSize - result[i];
+      result[i] = newSize;
+    }
+
+    // --- The constraints cannot be satisfied, the last pane takes the rest
+    if (Math.abs(diff) > 0.5) {
+      const last = result.length - 1;
+      result[last] = Math.max(0, result[last] + diff);
+    }
+    return result;
+  }
+
+  /**
+   * Moves the specified splitter. The panes next to the splitter change
+   * first; when they reach their limits, they push their neighbours.
+   * @param startSizes Pane sizes when the move started
+   * @param splitterIndex Index of the splitter
+   * @param delta Distance to move the splitter
+   * @returns New pane sizes
+   */
+  function moveSplitter(
+    startSizes: number[],
+    splitterIndex: number,
+    delta: number
+  ): number[] {
+    const containerSize = startSizes.reduce((a, b) => a + b, 0);
+    const [minSizes, maxSizes] = getLimits(containerSize);
+    const sizes = [...startSizes];
+
+    // --- Panes before the splitter (nearest first)
+    const before: number[] = [];
+    for (let i = splitterIndex; i >= 0; i--) {
+      before.push(i);
+    }
+
+    // --- Panes after the splitter (nearest first)
+    const after: number[] = [];
+    for (let i = splitterIndex + 1; i < sizes.length; i++) {
+      after.push(i);
+    }
+    const growing = delta > 0 ? before : after;
+    const shrinking = delta > 0 ? after : before;
+
+    // --- Calculate the distance we can move within the limits
+    const canGrow = growing.reduce(
+      (sum, i) => sum + Math.max(0, maxSizes[i] - sizes[i]),
+      0
+    );
+    const canShrink = shrinking.reduce(
+      (sum, i) => sum + Math.max(0, sizes[i] - minSizes[i]),
+      0
+    );
+    const distance = Math.min(Math.abs(delta), canGrow, canShrink);
+
+    // --- Shrink and grow the panes
+    let remaining = distance;
+    for (const i of shrinking) {
+      const change = Math.min(remaining, Math.max(0, sizes[i] - minSizes[i]));
+      sizes[i] -= change;
+      remaining -= change;
+    }
+    remaining = distance;
+    for (const i of growing) {
+      const change = Math.min(remaining, Math.max(0, maxSizes[i] - sizes[i]));
+      sizes[i] += change;
+      remaining -= change;
+    }
+    return sizes;
+  }
+
+  /**
+   * Start moving a splitter (when mouse is down)
+   */
+  function startMove(e: React.MouseEvent, index: number): void {
+    // --- Take a note of start position
+    gripPosition.current = horizontal ? e.clientX : e.clientY;
+    gripSizes.current = paneSizes ?? [];
+    gripIndex.current = index;
+
+    // --- Capture mouse move via window events
+    window.addEventListener("mouseup", _endMove);
+    window.addEventListener("mousemove", _move);
+    document.body.style.cursor = horizontal ? "ew-resize" : "ns-resize";
+    setDraggedIndex(index);
+  }
+
+  /**
+   * Move the splitter (as the mouse moves)
+   */
+  function move(e: MouseEvent): void {
+    if (gripIndex.current < 0) {
+      return;
+    }
+    const delta = (horizontal ? e.clientX : e.clientY) - gripPosition.current;
+    const newSizes = moveSplitter(gripSizes.current, gripIndex.current, delta);
+    setPaneSizes(newSizes);
+    resized?.(newSizes);
+    movedSizes.current = newSizes;
+  }
+
+  /**
+   * Stop moving the splitter
+   */
+  function endMove(): void {
+    // --- Release the captured mouse
+    window.removeEventListener("mouseup", _endMove);
+    window.removeEventListener("mousemove", _move);
+    document.body.style.cursor = "default";
+    gripIndex.current = -1;
+    setDraggedIndex(-1);
+
+    // --- Save the sizes when the move is complete
+    if (movedSizes.current) {
+      if (id) {
+        layoutStore?.savePanelState(id, { sizes: movedSizes.current });
+      }
+      onResizeEnd?.(movedSizes.current);
+    }
+    movedSizes.current = undefined;
+  }
+};
+
+/**
+ * Gets the offset of a particular splitter
+ * @param sizes Pane sizes
+ * @param index Splitter index
+ */
+function getSplitterOffset(sizes: number[] | undefined, index: number): number {
+  let offset = 0;
+  for (let i = 0; i <= index && sizes && i < sizes.length; i++) {
+    offset += sizes[i];
+  }
+  return offset;
+}
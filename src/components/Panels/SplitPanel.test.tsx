@@ -0,0 +1,230 @@
+import * as React from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+import { SplitPanel, SplitPanelApi, SplitPanelProperties } from "./SplitPanel";
+
+/**
+ * The initial size of the split panel's container
+ */
+const CONTAINER_SIZE = 400;
+
+/**
+ * Renders a vertical split panel
+ */
+function renderSplitPanel(props: Partial<SplitPanelProperties> = {}) {
+  let api: SplitPanelApi | undefined;
+  const createPanel = (newProps: Partial<SplitPanelProperties>) => (
+    <SplitPanel
+      panel1={<div>first</div>}
+      panel2={<div>second</div>}
+      initialSize={100}
+      registerApi={(newApi) => (api = newApi)}
+      {...newProps}
+    />
+  );
+  const result = render(createPanel(props));
+  return {
+    ...result,
+    api: () => api!,
+    splitter: () => result.getByRole("separator"),
+    update: (newProps: Partial<SplitPanelProperties>) =>
+      result.rerender(createPanel({ ...props, ...newProps })),
+  };
+}
+
+/**
+ * Gets the primary panel size displayed by the splitter
+ */
+function sizeOf(splitter: HTMLElement): number {
+  return Number(splitter.getAttribute("aria-valuenow"));
+}
+
+describe("SplitPanel", () => {
+  let containerSize: number;
+
+  beforeEach(() => {
+    // --- Panels are as large as their style says, relative to the container
+    containerSize = CONTAINER_SIZE;
+    const getSize = (size: string) =>
+      size.endsWith("%")
+        ? (parseFloat(size) * containerSize) / 100
+        : parseFloat(size) || 0;
+    jest
+      .spyOn(HTMLElement.prototype, "offsetHeight", "get")
+      .mockImplementation(function (this: HTMLElement) {
+        return getSize(this.style.height);
+      });
+    jest
+      .spyOn(HTMLElement.prototype, "offsetWidth", "get")
+      .mockImplementation(function (this: HTMLElement) {
+        return getSize(this.style.width);
+      });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe("keyboard", () => {
+    it("describes the splitter position", () => {
+      const { splitter } = renderSplitPanel({
+        panel1MinSize: 50,
+        panel2MinSize: 100,
+      });
+      expect(splitter().tabIndex).toBe(0);
+      expect(splitter().getAttribute("aria-orientation")).toBe("horizontal");
+      expect(splitter().getAttribute("aria-valuenow")).toBe("100");
+      expect(splitter().getAttribute("aria-valuemin")).toBe("50");
+      expect(splitter().getAttribute("aria-valuemax")).toBe("300");
+    });
+
+    it("moves the splitter within the minimum sizes", () => {
+      const resized = jest.fn();
+      const { splitter } = renderSplitPanel({
+        panel1MinSize: 50,
+        panel2MinSize: 100,
+        resized,
+      });
+      fireEvent.keyDown(splitter(), { key: "ArrowDown" });
+      expect(sizeOf(splitter())).toBe(110);
+      fireEvent.keyDown(splitter(), { key: "ArrowDown", shiftKey: true });
+      expect(sizeOf(splitter())).toBe(160);
+      fireEvent.keyDown(splitter(), { key: "ArrowUp" });
+      expect(sizeOf(splitter())).toBe(150);
+      fireEvent.keyDown(splitter(), { key: "End" });
+      expect(sizeOf(splitter())).toBe(300);
+      fireEvent.keyDown(splitter(), { key: "ArrowDown" });
+      expect(sizeOf(splitter())).toBe(300);
+      fireEvent.keyDown(splitter(), { key: "Home" });
+      expect(sizeOf(splitter())).toBe(50);
+      expect(resized.mock.calls.slice(-6)).toEqual([
+        [110],
+        [160],
+        [150],
+        [300],
+        [300],
+        [50],
+      ]);
+    });
+
+    it("uses the horizontal arrows in a horizontal panel", () => {
+      const { splitter } = renderSplitPanel({ horizontal: true });
+      expect(splitter().getAttribute("aria-orientation")).toBe("vertical");
+      fireEvent.keyDown(splitter(), { key: "ArrowDown" });
+      expect(sizeOf(splitter())).toBe(100);
+      fireEvent.keyDown(splitter(), { key: "ArrowRight" });
+      expect(sizeOf(splitter())).toBe(110);
+      fireEvent.keyDown(splitter(), { key: "ArrowLeft", shiftKey: true });
+      expect(sizeOf(splitter())).toBe(60);
+    });
+
+    it("moves a reversed splitter in the direction of the arrow", () => {
+      const { splitter } = renderSplitPanel({ reverse: true });
+      fireEvent.keyDown(splitter(), { key: "ArrowUp" });
+      expect(sizeOf(splitter())).toBe(110);
+    });
+  });
+
+  describe("size", () => {
+    it("renders a controlled size only from the size property", () => {
+      const onSizeChange = jest.fn();
+      const { splitter, update } = renderSplitPanel({
+        size: 120,
+        onSizeChange,
+      });
+      expect(sizeOf(splitter())).toBe(120);
+      fireEvent.keyDown(splitter(), { key: "ArrowDown" });
+      expect(onSizeChange).toHaveBeenLastCalledWith(130);
+      expect(sizeOf(splitter())).toBe(120);
+      update({ size: "50%" });
+      expect(sizeOf(splitter())).toBe(200);
+    });
+
+    it("reports the size changes of an uncontrolled panel", () => {
+      const onSizeChange = jest.fn();
+      const { splitter } = renderSplitPanel({ onSizeChange });
+      fireEvent.keyDown(splitter(), { key: "ArrowDown" });
+      expect(onSizeChange).toHaveBeenLastCalledWith(110);
+      expect(sizeOf(splitter())).toBe(110);
+    });
+
+    it("sets the size through the API", () => {
+      const { api, splitter } = renderSplitPanel({ panel2MinSize: 100 });
+      act(() => api().setSize("50%"));
+      expect(sizeOf(splitter())).toBe(200);
+      expect(api().getSize()).toBe(200);
+      act(() => api().setSize(350));
+      expect(api().getSize()).toBe(300);
+    });
+
+    it("keeps the size within the maximum sizes", () => {
+      const { splitter } = renderSplitPanel({
+        panel1MaxSize: 150,
+        panel2MaxSize: "25%",
+        initialSize: 100,
+      });
+
+      // --- The secondary panel may not be larger than 100px
+      expect(sizeOf(splitter())).toBe(300);
+      expect(splitter().getAttribute("aria-valuemin")).toBe("300");
+      expect(splitter().getAttribute("aria-valuemax")).toBe("150");
+    });
+
+    it("does not grow the primary panel beyond its maximum size", () => {
+      const { splitter } = renderSplitPanel({ panel1MaxSize: "30%" });
+      fireEvent.keyDown(splitter(), { key: "End" });
+      expect(sizeOf(splitter())).toBe(120);
+      fireEvent.keyDown(splitter(), { key: "ArrowDown", shiftKey: true });
+      expect(sizeOf(splitter())).toBe(120);
+    });
+  });
+
+  describe("resizing the container", () => {
+    it.each([
+      ["keepPrimary", 100],
+      ["keepSecondary", 300],
+      ["proportional", 150],
+    ] as const)("applies the %s behavior", (resizeBehavior, newSize) => {
+      const { splitter, update } = renderSplitPanel({ resizeBehavior });
+      containerSize = 600;
+      update({});
+      expect(sizeOf(splitter())).toBe(newSize);
+    });
+  });
+
+  describe("collapsed panels", () => {
+    it("restores the primary panel when moving away from its edge", () => {
+      const { splitter } = renderSplitPanel({ panel1Collapsible: true });
+      fireEvent.keyDown(splitter(), { key: "Enter" });
+      expect(sizeOf(splitter())).toBe(0);
+
+      // --- Moving towards the collapsed edge keeps the panel collapsed
+      fireEvent.keyDown(splitter(), { key: "ArrowUp" });
+      expect(sizeOf(splitter())).toBe(0);
+      fireEvent.keyDown(splitter(), { key: "ArrowDown" });
+      expect(sizeOf(splitter())).toBe(100);
+    });
+
+    it("restores the secondary panel when moving away from its edge", () => {
+      const onPanel2CollapsedChanged = jest.fn();
+      const { api, splitter } = renderSplitPanel({
+        panel2Collapsible: true,
+        onPanel2CollapsedChanged,
+      });
+      act(() => api().collapse(2));
+      expect(sizeOf(splitter())).toBe(CONTAINER_SIZE);
+      fireEvent.keyDown(splitter(), { key: "ArrowUp" });
+      expect(sizeOf(splitter())).toBe(100);
+      expect(onPanel2CollapsedChanged.mock.calls).toEqual([[true], [false]]);
+    });
+
+    it("moves away from the collapsed edge of a reversed panel", () => {
+      const { splitter } = renderSplitPanel({
+        panel1Collapsible: true,
+        reverse: true,
+      });
+      fireEvent.keyDown(splitter(), { key: "Enter" });
+      fireEvent.keyDown(splitter(), { key: "ArrowDown" });
+      expect(sizeOf(splitter())).toBe(0);
+      fireEvent.keyDown(splitter(), { key: "ArrowUp" });
+      expect(sizeOf(splitter())).toBe(100);
+    });
+  });
+});
@@ -3,6 +3,7 @@ import {
   CSSProperties,
   PropsWithChildren,
   ReactElement,
+  useEffect,
   useLayoutEffect,
   useRef,
   useState,
@@ -10,51 +11,143 @@ import {
 import { Panel } from ".";
 import { useResizeObserver } from "../../utils/useResizeObserver";
 import { ColumnPanel } from "./ColumnPanel";
+import { useLayoutStore, useSavedPanelState } from "./LayoutPersistence";
+import { resolvePanelSize } from "./panel-common";
 import { RowPanel } from "./RowPanel";
 
 /**
  * Properties of a SplitPanel
  */
 export type SplitPanelProperties = {
+  id?: string;
   panel1: ReactElement;
   panel1MinSize?: number | string;
+  panel1MaxSize?: number | string;
+  panel1Collapsible?: boolean;
   showPanel1?: boolean;
   panel2: ReactElement;
   panel2MinSize?: number | string;
+  panel2MaxSize?: number | string;
+  panel2Collapsible?: boolean;
   showPanel2?: boolean;
+  collapseThreshold?: number;
   initialSize?: number | string;
+  size?: number | string;
   horizontal?: boolean;
   reverse?: boolean;
+  resizeBehavior?: SplitPanelResizeBehavior;
   splitterSize?: number;
+  keyboardStep?: number;
+  largeKeyboardStep?: number;
   style?: CSSProperties;
   resized?: (newPos: number) => void;
+  onSizeChange?: (newSize: number) => void;
+  registerApi?: (api: SplitPanelApi) => void;
+  onPanel1CollapsedChanged?: (collapsed: boolean) => void;
+  onPanel2CollapsedChanged?: (collapsed: boolean) => void;
+  onPanel1VisibilityRestored?: (shown: boolean) => void;
+  onPanel2VisibilityRestored?: (shown: boolean) => void;
 };
 
+/**
+ * Specifies how the panels change when the container is resized
+ * "keepPrimary": The primary panel keeps its size
+ * "keepSecondary": The secondary panel keeps its size
+ * "proportional": The panels keep their size ratio
+ */
+export type SplitPanelResizeBehavior =
+  | "keepPrimary"
+  | "keepSecondary"
+  | "proportional";
+
+/**
+ * Represents the API the hosts of a split panel can invoke
+ */
+export type SplitPanelApi = {
+  /**
+   * Sets the size of the primary panel
+   */
+  setSize: (size: number | string) => void;
+
+  /**
+   * Gets the current size of the primary panel
+   */
+  getSize: () => number;
+
+  /**
+   * Collapses the specified panel
+   */
+  collapse: (panel: 1 | 2) => void;
+
+  /**
+   * Restores the collapsed panel to its saved size
+   */
+  expand: () => void;
+};
+
+/**
+ * The collapsed panel of a SplitPanel (0: none)
+ */
+type CollapsedPanel = 0 | 1 | 2;
+
+/**
+ * A collapsible panel without a minimum size collapses when dragged below
+ * this size
+ */
+const DEFAULT_COLLAPSE_THRESHOLD = 20;
+
 /**
  * A split panel with two child panels and a movable splitter between them
  */
 export const SplitPanel: React.FC<SplitPanelProperties> = ({
+  id,
   panel1: first,
   panel1MinSize,
+  panel1MaxSize,
+  panel1Collapsible = false,
   showPanel1 = true,
   panel2: second,
   panel2MinSize,
+  panel2MaxSize,
+  panel2Collapsible = false,
   showPanel2 = true,
+  collapseThreshold,
   initialSize,
+  size,
   horizontal = false,
   reverse = false,
+  resizeBehavior = "keepPrimary",
   splitterSize = 6,
+  keyboardStep = 10,
+  largeKeyboardStep = 50,
   style,
   resized,
+  onSizeChange,
+  registerApi,
+  onPanel1CollapsedChanged,
+  onPanel2CollapsedChanged,
+  onPanel1VisibilityRestored,
+  onPanel2VisibilityRestored,
 }: PropsWithChildren<SplitPanelProperties>) => {
+  // --- The layout saved for this panel
+  const layoutStore = useLayoutStore();
+  const savedState = useSavedPanelState(id);
+
   // --- Component state to trigger rendering
   const [primaryPanelSize, setPrimaryPanelSize] = useState(
-    initialSize ?? "50%"
+    size ?? savedState?.size ?? initialSize ?? "50%"
+  );
+  const [panel1Shown, setPanel1Shown] = useState(
+    savedState?.showPanel1 ?? showPanel1
+  );
+  const [panel2Shown, setPanel2Shown] = useState(
+    savedState?.showPanel2 ?? showPanel2
   );
 
   // --- State of the floating splitter
   const [pointed, setPointed] = useState(false);
   const [dragging, setDragging] = useState(false);
+  const [focused, setFocused] = useState(false);
   const [splitterTop, setSplitterTop] = useState(0);
   const [splitterLeft, setSplitterLeft] = useState(0);
 
@@ -64,11 +157,18 @@ export const SplitPanel: React.FC<SplitPanelProperties> = ({
   const primaryPanelRef = useRef<HTMLDivElement>(null);
   const secondaryIsDisplayed = useRef(false);
   const secondaryPanelRef = useRef<HTMLDivElement>(null);
-  const primaryPanelSizeSaved = useRef(0);
+  const primaryPanelSizeSaved = useRef(savedState?.restoreSize ?? 0);
   const gripPosition = useRef(0);
   const gripSize = useRef(0);
   const minSplitterValue = useRef(0);
   const maxSplitterValue = useRef(0);
+  const panelMinSizes = useRef<[number, number]>([0, 0]);
+  const containerSizeValue = useRef(0);
+  const collapsed = useRef<CollapsedPanel>(savedState?.collapsedPanel ?? 0);
+  const primarySizeValue = useRef(0);
+  const mounted = useRef(false);
+  const moving = useRef(false);
+  const apiHandlers = useRef<SplitPanelApi>();
 
   // --- Obtain the container and panel sizes
   const crossSize = horizontal
@@ -83,8 +183,9 @@ export const SplitPanel: React.FC<SplitPanelProperties> = ({
     height: horizontal ? crossSize : splitterSize,
     width: horizontal ? splitterSize : crossSize,
     backgroundColor:
-      pointed || dragging ? "cyan" : "transparent",
-    opacity: pointed || dragging ? 1 : 0,
+      pointed || dragging || focused ? "cyan" : "transparent",
+    opacity: pointed || dragging || focused ? 1 : 0,
+    outline: "none",
     cursor: horizontal ? "ew-resize" : "ns-resize",
     transitionProperty: "background-color",
     transitionDelay: "0.25s",
@@ -110,6 +211,66 @@ export const SplitPanel: React.FC<SplitPanelProperties> = ({
     _onResized();
   });
 
+  // --- Render the size set by the host
+  useLayoutEffect(() => {
+    if (size !== undefined && mounted.current) {
+      const newSize = resolvePanelSize(
+        containerSizeValue.current,
+        primarySizeValue.current,
+        size
+      );
+
+      // --- The size passed back collapses the panels
+      if (!collapsed.current) {
+        primaryPanelSizeSaved.current = primarySizeValue.current;
+      }
+      changeCollapsed(
+        panel1Collapsible && newSize <= 0
+          ? 1
+          : panel2Collapsible && newSize >= containerSizeValue.current
+          ? 2
+          : 0
+      );
+      showSize(newSize);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [size]);
+
+  // --- Follow the visibility set by the host
+  useEffect(() => {
+    if (mounted.current) {
+      setPanel1Shown(showPanel1);
+    }
+  }, [showPanel1]);
+  useEffect(() => {
+    if (mounted.current) {
+      setPanel2Shown(showPanel2);
+    }
+  }, [showPanel2]);
+
+  // --- Save the visibility of the panels
+  useEffect(() => {
+    if (mounted.current) {
+      saveLayoutState();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [panel1Shown, panel2Shown]);
+
+  // --- The API always invokes the handlers of the latest render
+  apiHandlers.current = { setSize, getSize, collapse, expand };
+  useEffect(() => {
+    if (!mounted.current) {
+      registerApi?.({
+        setSize: (size) => apiHandlers.current.setSize(size),
+        getSize: () => apiHandlers.current.getSize(),
+        collapse: (panel) => apiHandlers.current.collapse(panel),
+        expand: () => apiHandlers.current.expand(),
+      });
+      mounted.current = true;
+      notifyRestoredState();
+    }
+  });
+
   return (
     <>
       <Panel
@@ -120,7 +281,7 @@ export const SplitPanel: React.FC<SplitPanelProperties> = ({
       >
         {horizontal && (
           <>
-            {showPanel1 && showPanel2 && (
+            {panel1Shown && panel2Shown && (
               <>
                 <ColumnPanel hostRef={primaryPanelRef} size={primaryPanelSize}>
                   {first}
@@ -128,17 +289,17 @@ export const SplitPanel: React.FC<SplitPanelProperties> = ({
                 <ColumnPanel hostRef={secondaryPanelRef}>{second}</ColumnPanel>
               </>
             )}
-            {showPanel1 && !showPanel2 && (
+            {panel1Shown && !panel2Shown && (
               <ColumnPanel hostRef={primaryPanelRef}>
                 {first}
               </ColumnPanel>
             )}
-            {!showPanel1 && showPanel2 && <ColumnPanel hostRef={secondaryPanelRef}>{second}</ColumnPanel>}
+            {!panel1Shown && panel2Shown && <ColumnPanel hostRef={secondaryPanelRef}>{second}</ColumnPanel>}
           </>
         )}
         {!horizontal && (
           <>
-            {showPanel1 && showPanel2 && (
+            {panel1Shown && panel2Shown && (
               <>
                 <RowPanel hostRef={primaryPanelRef} size={primaryPanelSize}>
                   {first}
@@ -146,16 +307,35 @@ export const SplitPanel: React.FC<SplitPanelProperties> = ({
                 <RowPanel hostRef={secondaryPanelRef}>{second}</RowPanel>
               </>
             )}
-            {showPanel1 && !showPanel2 && (
+            {panel1Shown && !panel2Shown && (
               <RowPanel hostRef={primaryPanelRef}>{first}</RowPanel>
             )}
-            {!showPanel1 && showPanel2 && <RowPanel hostRef={secondaryPanelRef}>{second}</RowPanel>}
+            {!panel1Shown && panel2Shown && <RowPanel hostRef={secondaryPanelRef}>{second}</RowPanel>}
           </>
         )}
       </Panel>
-      {showPanel1 && showPanel2 && (
+      {panel1Shown && panel2Shown && (
         <div
           style={splitterStyle}
+          tabIndex={0}
+          role="separator"
+          aria-orientation={horizontal ? "vertical" : "horizontal"}
+          aria-valuenow={
+            typeof primaryPanelSize === "number"
+              ? Math.round(primaryPanelSize)
+              : undefined
+          }
+          aria-valuemin={
+            panel1Collapsible ? 0 : Math.round(minSplitterValue.current)
+          }
+          aria-valuemax={
+            panel2Collapsible
+              ? Math.round(containerSizeValue.current)
+              : Math.round(maxSplitterValue.current)
+          }
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          onKeyDown={(e) => handleKeys(e)}
           onMouseEnter={() => setPointed(true)}
           onMouseLeave={() => setPointed(false)}
           onMouseDown={(e) => {
@@ -166,6 +346,7 @@ export const SplitPanel: React.FC<SplitPanelProperties> = ({
             }
           }}
           onMouseUp={() => endMove()}
+          onDoubleClick={() => toggleCollapsed()}
         ></div>
       )}
     </>
@@ -189,6 +370,8 @@ export const SplitPanel: React.FC<SplitPanelProperties> = ({
       (horizontal
         ? containerRef.current?.offsetWidth
         : containerRef.current?.offsetHeight) ?? -1;
+    const lastContainerSize = containerSizeValue.current;
+    containerSizeValue.current = containerSize;
 
     // --- Calculate splitter positions
     const rect = containerRef.current?.getBoundingClientRect();
@@ -234,6 +417,15 @@ export const SplitPanel: React.FC<SplitPanelProperties> = ({
           (horizontal
             ? primaryPanelRef.current?.offsetWidth
             : primaryPanelRef.current?.offsetHeight) ?? -1;
+
+        // --- The container has been resized, apply the resize behavior
+        if (lastContainerSize > 0 && lastContainerSize !== containerSize) {
+          if (resizeBehavior === "keepSecondary") {
+            panel1Size = containerSize - (lastContainerSize - panel1Size);
+          } else if (resizeBehavior === "proportional") {
+            panel1Size = (panel1Size * containerSize) / lastContainerSize;
+          }
+        }
       } else {
         // --- We have just displayed the primary panel, so set its size
         if (typeof primaryPanelSize === "string") {
@@ -256,52 +448,53 @@ export const SplitPanel: React.FC<SplitPanelProperties> = ({
     let panel2Size = containerSize - panel1Size;
 
     // --- Keep the first panel size
-    const minSize1 = getMinimumSize(
+    const minSize1 = resolvePanelSize(
       containerSize,
       panel1Size,
       panel1MinSize ?? 0
     );
-    if (panel1Size < minSize1) {
-      panel1Size = minSize1;
-    }
-    const minSize2 = getMinimumSize(
+    const minSize2 = resolvePanelSize(
       containerSize,
       panel2Size,
       panel2MinSize ?? 0
     );
-    if (panel2Size < minSize2 && containerSize - minSize2 >= minSize1) {
-      panel1Size = containerSize - minSize2;
-    }
-    if (panel1Size > containerSize) {
-      panel1Size = containerSize;
+    const maxSize1 =
+      panel1MaxSize === undefined
+        ? containerSize
+        : resolvePanelSize(containerSize, containerSize, panel1MaxSize);
+    const maxSize2 =
+      panel2MaxSize === undefined
+        ? containerSize
+        : resolvePanelSize(containerSize, containerSize, panel2MaxSize);
+    if (collapsed.current) {
+      // --- A collapsed panel keeps its collapsed size
+      panel1Size = collapsed.current === 1 ? 0 : containerSize;
+    } else {
+      // --- Minimum sizes take precedence over maximum sizes
+      if (panel1Size > maxSize1) {
+        panel1Size = maxSize1;
+      }
+      if (containerSize - panel1Size > maxSize2) {
+        panel1Size = containerSize - maxSize2;
+      }
+      panel2Size = containerSize - panel1Size;
+      if (panel1Size < minSize1) {
+        panel1Size = minSize1;
+      }
+      if (panel2Size < minSize2 && containerSize - minSize2 >= minSize1) {
+        panel1Size = containerSize - minSize2;
+      }
+      if (panel1Size > containerSize) {
+        panel1Size = containerSize;
+      }
     }
 
     // --- Set the resulting size and the new splitter range
     setPrimaryPanelSize(panel1Size);
-    minSplitterValue.current = minSize1;
-    maxSplitterValue.current = containerSize - minSize2;
-  }
-
-  /**
-   * The new size of a panel
-   * @param containerSize The container's size
-   * @param panelSize New size to set
-   * @param minSize Minimum size specification
-   * @returns New panel size
-   */
-  function getMinimumSize(
-    containerSize: number,
-    panelSize: number,
-    minSize: number | string
-  ): number {
-    if (typeof minSize === "number") {
-      return minSize;
-    }
-    if (minSize.endsWith("%")) {
-      const percSize = parseInt(minSize.substr(0, minSize.length - 1));
-      return isNaN(percSize) ? panelSize : (containerSize * percSize) / 100;
-    }
-    return panelSize;
+    primarySizeValue.current = panel1Size;
+    minSplitterValue.current = Math.max(minSize1, containerSize - maxSize2);
+    maxSplitterValue.current = Math.min(containerSize - minSize2, maxSize1);
+    panelMinSizes.current = [minSize1, minSize2];
   }
 
   /**
@@ -316,6 +509,7 @@ export const SplitPanel: React.FC<SplitPanelProperties> = ({
     window.addEventListener("mouseup", _endMove);
     window.addEventListener("mousemove", _move);
     document.body.style.cursor = horizontal ? "ew-resize" : "ns-resize";
+    moving.current = true;
     setDragging(true);
   }
 
@@ -323,23 +517,265 @@ export const SplitPanel: React.FC<SplitPanelProperties> = ({
    * Move the splitter (as the mouse moves)
    */
   function move(e: MouseEvent): void {
+    // --- Calculate the delta move
+    const delta = (horizontal ? e.clientX : e.clientY) - gripPosition.current;
+    moveTo(gripSize.current + (reverse ? -delta : delta));
+  }
+
+  /**
+   * Move the splitter with the keyboard
+   */
+  function handleKeys(e: React.KeyboardEvent): void {
+    if (typeof primaryPanelSize !== "number") {
+      return;
+    }
+    const step = e.shiftKey ? largeKeyboardStep : keyboardStep;
+    let delta = 0;
+    switch (e.key) {
+      case "ArrowLeft":
+        delta = horizontal ? -step : 0;
+        break;
+      case "ArrowRight":
+        delta = horizontal ? step : 0;
+        break;
+      case "ArrowUp":
+        delta = horizontal ? 0 : -step;
+        break;
+      case "ArrowDown":
+        delta = horizontal ? 0 : step;
+        break;
+      case "Home":
+        moveTo(minSplitterValue.current);
+        e.preventDefault();
+        return;
+      case "End":
+        moveTo(maxSplitterValue.current);
+        e.preventDefault();
+        return;
+      case "Enter":
+        toggleCollapsed();
+        e.preventDefault();
+        return;
+      default:
+        return;
+    }
+    if (delta) {
+      const primaryDelta = reverse ? -delta : delta;
+      if (
+        (collapsed.current === 1 && primaryDelta > 0) ||
+        (collapsed.current === 2 && primaryDelta < 0)
+      ) {
+        // --- Moving away from the collapsed edge restores the panel
+        expand();
+      } else {
+        moveTo(primaryPanelSize + primaryDelta);
+      }
+      e.preventDefault();
+    }
+  }
+
+  /**
+   * Moves the splitter to the specified position
+   * @param position New primary panel size
+   */
+  function moveTo(position: number): void {
+    // --- Snap collapsible panels when moving below the threshold
+    const containerSize = containerSizeValue.current;
+    if (panel1Collapsible && position < getCollapseThreshold(0)) {
+      collapse(1);
+      return;
+    }
+    if (
+      panel2Collapsible &&
+      containerSize - position < getCollapseThreshold(1)
+    ) {
+      collapse(2);
+      return;
+    }
+
     if (maxSplitterValue.current < minSplitterValue.current) {
       // --- We do not have a range to move within
       return;
     }
 
-    // --- Calculate the delta move
-    const delta = (horizontal ? e.clientX : e.clientY) - gripPosition.current;
-    let newPosition = gripSize.current + (reverse ? -delta : delta);
-
     // --- Do not allow moving out of the range defined by the minimum panel sizes
+    let newPosition = position;
+    if (newPosition < minSplitterValue.current) {
+      newPosition = minSplitterValue.current;
+    } else if (newPosition > maxSplitterValue.current) {
+      newPosition = maxSplitterValue.current;
+    }
+    applySize(newPosition, 0);
+  }
+
+  /**
+   * Gets the size below which a collapsible panel collapses
+   * @param panelIndex Index of the panel (0: primary, 1: secondary)
+   */
+  function getCollapseThreshold(panelIndex: 0 | 1): number {
+    return (
+      collapseThreshold ??
+      Math.max(
+        panelMinSizes.current[panelIndex] / 2,
+        DEFAULT_COLLAPSE_THRESHOLD
+      )
+    );
+  }
+
+  /**
+   * Sets the size of the primary panel
+   * @param size Size in pixels or percentage of the container
+   */
+  function setSize(size: number | string): void {
+    const newPosition = resolvePanelSize(
+      containerSizeValue.current,
+      primarySizeValue.current,
+      size
+    );
+    if (newPosition !== primarySizeValue.current || collapsed.current) {
+      moveTo(newPosition);
+    }
+  }
+
+  /**
+   * Gets the current size of the primary panel
+   */
+  function getSize(): number {
+    return primarySizeValue.current;
+  }
+
+  /**
+   * Collapses the specified panel
+   * @param panel Panel to collapse
+   */
+  function collapse(panel: 1 | 2): void {
+    if (collapsed.current === panel) {
+      return;
+    }
+    if (!collapsed.current) {
+      // --- Save the size to restore
+      primaryPanelSizeSaved.current = primarySizeValue.current;
+    }
+    const newPosition = panel === 1 ? 0 : containerSizeValue.current;
+    applySize(newPosition, panel);
+  }
+
+  /**
+   * Restores the collapsed panel to its saved size
+   */
+  function expand(): void {
+    if (!collapsed.current) {
+      return;
+    }
+    let newPosition = primaryPanelSizeSaved.current;
     if (newPosition < minSplitterValue.current) {
       newPosition = minSplitterValue.current;
     } else if (newPosition > maxSplitterValue.current) {
       newPosition = maxSplitterValue.current;
     }
+    applySize(newPosition, 0);
+  }
+
+  /**
+   * Collapses or restores the collapsible panel
+   */
+  function toggleCollapsed(): void {
+    if (collapsed.current) {
+      expand();
+    } else if (panel1Collapsible) {
+      collapse(1);
+    } else if (panel2Collapsible) {
+      collapse(2);
+    }
+  }
+
+  /**
+   * Applies the new primary panel size and notifies the host. When the host
+   * controls the size, it is only reported; the host decides whether to pass
+   * it back.
+   * @param newPosition New primary panel size
+   * @param collapsedPanel The collapsed panel with the new size
+   */
+  function applySize(
+    newPosition: number,
+    collapsedPanel: CollapsedPanel
+  ): void {
+    if (size !== undefined) {
+      onSizeChange?.(newPosition);
+      return;
+    }
+    changeCollapsed(collapsedPanel);
+    showSize(newPosition);
+    onSizeChange?.(newPosition);
+  }
+
+  /**
+   * Displays the primary panel with the specified size
+   * @param newPosition New primary panel size
+   */
+  function showSize(newPosition: number): void {
+    primarySizeValue.current = newPosition;
     setPrimaryPanelSize(newPosition);
     resized?.(newPosition);
+
+    // --- While dragging, the size is saved when the move is complete
+    if (!moving.current) {
+      saveLayoutState();
+    }
+  }
+
+  /**
+   * Saves the layout state of the panel, provided it has an ID
+   */
+  function saveLayoutState(): void {
+    if (id) {
+      layoutStore?.savePanelState(id, {
+        size: primarySizeValue.current,
+        restoreSize: primaryPanelSizeSaved.current,
+        collapsedPanel: collapsed.current,
+        showPanel1: panel1Shown,
+        showPanel2: panel2Shown,
+      });
+    }
+  }
+
+  /**
+   * Notifies the host about the visibility and collapsed state restored from
+   * the saved layout
+   */
+  function notifyRestoredState(): void {
+    if (!savedState) {
+      return;
+    }
+    if (panel1Shown !== showPanel1) {
+      onPanel1VisibilityRestored?.(panel1Shown);
+    }
+    if (panel2Shown !== showPanel2) {
+      onPanel2VisibilityRestored?.(panel2Shown);
+    }
+    if (collapsed.current === 1) {
+      onPanel1CollapsedChanged?.(true);
+    } else if (collapsed.current === 2) {
+      onPanel2CollapsedChanged?.(true);
+    }
+  }
+
+  /**
+   * Changes the collapsed state and notifies the host
+   * @param panel The new collapsed panel
+   */
+  function changeCollapsed(panel: CollapsedPanel): void {
+    const oldPanel = collapsed.current;
+    if (oldPanel === panel) {
+      return;
+    }
+    collapsed.current = panel;
+    if (oldPanel === 1 || panel === 1) {
+      onPanel1CollapsedChanged?.(panel === 1);
+    }
+    if (oldPanel === 2 || panel === 2) {
+      onPanel2CollapsedChanged?.(panel === 2);
+    }
   }
 
   /**
@@ -351,5 +787,11 @@ export const SplitPanel: React.FC<SplitPanelProperties> = ({
     window.removeEventListener("mousemove", _move);
     document.body.style.cursor = "default";
     setDragging(false);
+
+    // --- Save the size when the move is complete
+    if (moving.current) {
+      moving.current = false;
+      saveLayoutState();
+    }
   }
 };
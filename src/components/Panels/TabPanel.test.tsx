@@ -0,0 +1,229 @@
+import * as React from "react";
+import { useEffect } from "react";
+import { createEvent, fireEvent, render } from "@testing-library/react";
+import { TabDefinition, TabPanel, TabPanelProps } from "./TabPanel";
+
+/**
+ * The width of a tab in the strip
+ */
+const TAB_WIDTH = 100;
+
+/**
+ * Content that counts how many times it has been mounted
+ */
+const CountedContent: React.FC<{ mounts: string[]; id: string }> = ({
+  mounts,
+  id,
+}) => {
+  useEffect(() => {
+    mounts.push(id);
+  }, [mounts, id]);
+  return <div>{`content ${id}`}</div>;
+};
+
+/**
+ * Creates tabs with the specified IDs
+ */
+function createTabs(mounts: string[], ...ids: string[]): TabDefinition[] {
+  return ids.map((id) => ({
+    id,
+    title: `Tab ${id}`,
+    content: <CountedContent mounts={mounts} id={id} />,
+  }));
+}
+
+/**
+ * Renders a tab panel
+ */
+function renderTabPanel(props: Partial<TabPanelProps> = {}) {
+  const mounts: string[] = [];
+  const createPanel = (newProps: Partial<TabPanelProps>) => (
+    <TabPanel tabs={createTabs(mounts, "a", "b", "c", "d")} {...newProps} />
+  );
+  const result = render(createPanel(props));
+  return {
+    ...result,
+    mounts,
+    tab: (id: string) =>
+      result.container.querySelector<HTMLElement>(`[data-tab-id="${id}"]`)!,
+    closeButton: (id: string) =>
+      result.container.querySelector<HTMLElement>(
+        `[data-tab-id="${id}"] > span:last-child`
+      )!,
+    update: (newProps: Partial<TabPanelProps>) =>
+      result.rerender(createPanel({ ...props, ...newProps })),
+  };
+}
+
+/**
+ * Drags over an element at the specified horizontal position. The drag
+ * events of the DOM implementation have no mouse position.
+ */
+function dragOver(element: HTMLElement, clientX: number): void {
+  const event = createEvent.dragOver(element);
+  Object.defineProperty(event, "clientX", { value: clientX });
+  fireEvent(element, event);
+}
+
+describe("TabPanel", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("activates the clicked tab", () => {
+    const onActiveTabChanged = jest.fn();
+    const { tab } = renderTabPanel({ onActiveTabChanged });
+    expect(tab("a").getAttribute("aria-selected")).toBe("true");
+    fireEvent.mouseDown(tab("c"), { button: 0 });
+    expect(tab("c").getAttribute("aria-selected")).toBe("true");
+    expect(tab("a").getAttribute("aria-selected")).toBe("false");
+    expect(onActiveTabChanged).toHaveBeenCalledWith("c");
+  });
+
+  it("keeps the inactive tabs mounted", () => {
+    const { mounts, tab, getByText } = renderTabPanel();
+    fireEvent.mouseDown(tab("b"), { button: 0 });
+    fireEvent.mouseDown(tab("a"), { button: 0 });
+    expect(mounts).toEqual(["a", "b", "c", "d"]);
+    expect(getByText("content a").parentElement!.style.visibility).toBe(
+      "visible"
+    );
+    expect(getByText("content b").parentElement!.style.visibility).toBe(
+      "hidden"
+    );
+  });
+
+  it("closes tabs with the close button and the middle button", () => {
+    const onTabClosed = jest.fn();
+    const { closeButton, tab } = renderTabPanel({ onTabClosed });
+    fireEvent.click(closeButton("b"));
+    fireEvent.mouseUp(tab("c"), { button: 1 });
+    expect(onTabClosed.mock.calls).toEqual([["b"], ["c"]]);
+  });
+
+  it("does not close the tabs that are not closable", () => {
+    const onTabClosed = jest.fn();
+    const tabs = createTabs([], "a", "b").map((tab) => ({
+      ...tab,
+      closable: false,
+    }));
+    const { closeButton, tab } = renderTabPanel({ tabs, onTabClosed });
+    fireEvent.click(closeButton("a"));
+    fireEvent.mouseUp(tab("b"), { button: 1 });
+    expect(onTabClosed).not.toHaveBeenCalled();
+    expect(closeButton("a").style.visibility).toBe("hidden");
+  });
+
+  it("selects a neighbour when the active tab is removed", () => {
+    const onActiveTabChanged = jest.fn();
+    const { tab, update } = renderTabPanel({
+      tabs: createTabs([], "a", "b", "c"),
+      onActiveTabChanged,
+    });
+    fireEvent.mouseDown(tab("c"), { button: 0 });
+    update({ tabs: createTabs([], "a", "b") });
+    expect(tab("b").getAttribute("aria-selected")).toBe("true");
+    expect(onActiveTabChanged).toHaveBeenLastCalledWith("b");
+  });
+
+  it("marks the dirty tabs until they are pointed", () => {
+    const tabs = createTabs([], "a", "b").map((tab) => ({
+      ...tab,
+      dirty: tab.id === "b",
+    }));
+    const { closeButton, tab } = renderTabPanel({ tabs });
+    expect(closeButton("b").textContent).toBe("●");
+    expect(closeButton("b").style.visibility).toBe("visible");
+    fireEvent.mouseEnter(tab("b"));
+    expect(closeButton("b").textContent).toBe("×");
+    fireEvent.mouseLeave(tab("b"));
+    expect(closeButton("b").textContent).toBe("●");
+  });
+
+  it("cycles the tabs with Ctrl+Tab", () => {
+    const onActiveTabChanged = jest.fn();
+    const { tab } = renderTabPanel({ onActiveTabChanged });
+    fireEvent.keyDown(tab("a"), { key: "Tab", ctrlKey: true });
+    fireEvent.keyDown(tab("b"), { key: "Tab", ctrlKey: true, shiftKey: true });
+    fireEvent.keyDown(tab("a"), { key: "Tab", ctrlKey: true, shiftKey: true });
+    fireEvent.keyDown(tab("d"), { key: "Tab" });
+    expect(onActiveTabChanged.mock.calls).toEqual([["b"], ["a"], ["d"]]);
+  });
+
+  it("moves the dragged tab to the drop position", () => {
+    const onTabMoved = jest.fn();
+    const { tab } = renderTabPanel({ onTabMoved });
+    jest.spyOn(HTMLElement.prototype, "getBoundingClientRect").mockReturnValue({
+      top: 0,
+      bottom: 32,
+      height: 32,
+      left: 0,
+      right: TAB_WIDTH,
+      width: TAB_WIDTH,
+      x: 0,
+      y: 0,
+      toJSON: () => {},
+    });
+
+    // --- Drop after the right half of "c"
+    fireEvent.dragStart(tab("a"), { dataTransfer: {} });
+    dragOver(tab("c"), 80);
+    fireEvent.drop(tab("c"));
+    expect(onTabMoved).toHaveBeenLastCalledWith("a", 2);
+
+    // --- Drop before the left half of "b"
+    fireEvent.dragStart(tab("d"), { dataTransfer: {} });
+    dragOver(tab("b"), 20);
+    fireEvent.drop(tab("b"));
+    expect(onTabMoved).toHaveBeenLastCalledWith("d", 1);
+
+    // --- Dropping at the same position does not move the tab
+    fireEvent.dragStart(tab("b"), { dataTransfer: {} });
+    dragOver(tab("b"), 80);
+    fireEvent.drop(tab("b"));
+    expect(onTabMoved).toHaveBeenCalledTimes(2);
+  });
+
+  describe("overflowing tabs", () => {
+    beforeEach(() => {
+      // --- Tabs are lined up in a strip that shows two and a half tabs
+      jest
+        .spyOn(HTMLElement.prototype, "offsetLeft", "get")
+        .mockImplementation(function (this: HTMLElement) {
+          return this.dataset.tabId === undefined
+            ? 0
+            : Array.from(this.parentElement!.children).indexOf(this) *
+                TAB_WIDTH;
+        });
+      jest
+        .spyOn(HTMLElement.prototype, "offsetWidth", "get")
+        .mockImplementation(function (this: HTMLElement) {
+          return this.dataset.tabId === undefined ? 0 : TAB_WIDTH;
+        });
+      jest
+        .spyOn(HTMLElement.prototype, "clientWidth", "get")
+        .mockImplementation(function (this: HTMLElement) {
+          return this.getAttribute("role") === "tablist" ? TAB_WIDTH * 2.5 : 0;
+        });
+    });
+
+    it("lists the hidden tabs in the overflow menu", () => {
+      const onActiveTabChanged = jest.fn();
+      const { getByTitle, queryByText, tab } = renderTabPanel({
+        onActiveTabChanged,
+      });
+      expect(queryByText("Tab c", { selector: "div" })).toBeNull();
+      fireEvent.click(getByTitle("Show hidden tabs"));
+      expect(queryByText("Tab b", { selector: "div" })).toBeNull();
+      fireEvent.click(queryByText("Tab d", { selector: "div" })!);
+      expect(onActiveTabChanged).toHaveBeenCalledWith("d");
+      expect(tab("d").getAttribute("aria-selected")).toBe("true");
+      expect(queryByText("Tab c", { selector: "div" })).toBeNull();
+    });
+
+    it("does not show the overflow button when all tabs fit", () => {
+      const { queryByTitle } = renderTabPanel({
+        tabs: createTabs([], "a", "b"),
+      });
+      expect(queryByTitle("Show hidden tabs")).toBeNull();
+    });
+  });
+});
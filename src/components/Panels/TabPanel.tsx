@@ -0,0 +1,442 @@
+import * as React from "react";
+import {
+  CSSProperties,
+  PropsWithChildren,
+  ReactElement,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import { Panel } from ".";
+import { useResizeObserver } from "../../utils/useResizeObserver";
+
+/**
+ * Describes a tab of the tab panel
+ */
+export type TabDefinition = {
+  id: string;
+  title: string;
+  content: ReactElement;
+  closable?: boolean;
+  dirty?: boolean;
+};
+
+/**
+ * Properties of the tab panel
+ */
+export type TabPanelProps = {
+  /**
+   * The tabs to display
+   */
+  tabs: TabDefinition[];
+
+  /**
+   * The ID of the active tab
+   */
+  activeTabId?: string;
+
+  /**
+   * The height of the tab strip
+   */
+  tabHeight?: number;
+
+  /**
+   * Extra style information to add to the panel
+   */
+  style?: CSSProperties;
+
+  /**
+   * Function called when the active tab changes
+   */
+  onActiveTabChanged?: (id: string) => void;
+
+  /**
+   * Function called when the user closes a tab
+   */
+  onTabClosed?: (id: string) => void;
+
+  /**
+   * Function called when the user drags a tab to a new position
+   */
+  onTabMoved?: (id: string, newIndex: number) => void;
+};
+
+/**
+ * A tab container with a tab strip and a content area. The contents of
+ * inactive tabs are kept mounted, but hidden.
+ */
+export const TabPanel: React.FC<TabPanelProps> = ({
+  tabs,
+  activeTabId,
+  tabHeight = 32,
+  style,
+  onActiveTabChanged,
+  onTabClosed,
+  onTabMoved,
+}: PropsWithChildren<TabPanelProps>) => {
+  // --- Component state to trigger rendering
+  const [activeId, setActiveId] = useState(activeTabId ?? tabs[0]?.id);
+  const [pointedId, setPointedId] = useState<string>();
+  const [hiddenTabs, setHiddenTabs] = useState<string[]>([]);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [dropIndex, setDropIndex] = useState(-1);
+
+  // --- Other state information
+  const stripRef = useRef<HTMLDivElement>();
+  const activeIndex = useRef(0);
+  const draggedId = useRef<string>();
+
+  // --- Follow the active tab set by the host
+  useEffect(() => {
+    if (activeTabId !== undefined) {
+      setActiveId(activeTabId);
+    }
+  }, [activeTabId]);
+
+  // --- Select a neighbour when the active tab is removed
+  useEffect(() => {
+    const index = tabs.findIndex((tab) => tab.id === activeId);
+    if (index >= 0) {
+      activeIndex.current = index;
+    } else if (tabs.length > 0) {
+      selectTab(tabs[Math.min(activeIndex.current, tabs.length - 1)].id);
+    }
+  });
+
+  // --- Keep the active tab visible in the strip
+  useLayoutEffect(() => {
+    scrollIntoView(activeId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeId]);
+
+  // --- Check the overflowing tabs whenever the strip changes
+  useLayoutEffect(() => {
+    updateHiddenTabs();
+  });
+  useResizeObserver({
+    element: stripRef,
+    callback: () => updateHiddenTabs(),
+  });
+
+  const stripContainerStyle: CSSProperties = {
+    display: "flex",
+    flexDirection: "row",
+    flexShrink: 0,
+    position: "relative",
+    height: tabHeight,
+    background: "#e0e0e0",
+  };
+
+  const stripStyle: CSSProperties = {
+    display: "flex",
+    flexDirection: "row",
+    flexGrow: 1,
+    position: "relative",
+    overflow: "hidden",
+    whiteSpace: "nowrap",
+  };
+
+  const overflowButtonStyle: CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    flexShrink: 0,
+    width: tabHeight,
+    cursor: "pointer",
+  };
+
+  const menuStyle: CSSProperties = {
+    position: "absolute",
+    top: tabHeight,
+    right: 0,
+    minWidth: 160,
+    maxHeight: 320,
+    overflowY: "auto",
+    background: "#f8f8f8",
+    boxShadow: "0 2px 8px rgba(0, 0, 0, 0.3)",
+    zIndex: 200,
+  };
+
+  const contentStyle: CSSProperties = {
+    position: "relative",
+    flexGrow: 1,
+    flexShrink: 1,
+    overflow: "hidden",
+  };
+
+  return (
+    <Panel style={style} onKeyDown={(e) => handleKeys(e)}>
+      <div style={stripContainerStyle}>
+        <div
+          ref={stripRef}
+          role="tablist"
+          style={stripStyle}
+          onWheel={(e) => {
+            stripRef.current.scrollLeft += e.deltaY + e.deltaX;
+            updateHiddenTabs();
+          }}
+        >
+          {tabs.map((tab, index) => renderTab(tab, index))}
+        </div>
+        {hiddenTabs.length > 0 && (
+          <div
+            style={overflowButtonStyle}
+            title="Show hidden tabs"
+            onClick={() => setMenuOpen(!menuOpen)}
+          >
+            &#x2304;
+          </div>
+        )}
+        {menuOpen && hiddenTabs.length > 0 && (
+          <div style={menuStyle} onMouseLeave={() => setMenuOpen(false)}>
+            {tabs
+              .filter((tab) => hiddenTabs.includes(tab.id))
+              .map((tab) => (
+                <div
+                  key={tab.id}
+                  style={{ padding: "4px 8px", cursor: "pointer" }}
+                  onClick={() => {
+                    setMenuOpen(false);
+                    selectTab(tab.id);
+                  }}
+                >
+                  {tab.dirty ? `● ${tab.title}` : tab.title}
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+      <div style={contentStyle}>
+        {tabs.map((tab) => (
+          <div
+            key={tab.id}
+            role="tabpanel"
+            style={{
+              position: "absolute",
+              top: 0,
+              left: 0,
+              width: "100%",
+              height: "100%",
+              display: "flex",
+              flexDirection: "column",
+              visibility: tab.id === activeId ? "visible" : "hidden",
+            }}
+          >
+            {tab.content}
+          </div>
+        ))}
+      </div>
+    </Panel>
+  );
+
+  /**
+   * Renders a particular tab in the strip
+   * @param tab Tab to render
+   * @param index Tab index
+   */
+  function renderTab(tab: TabDefinition, index: number): ReactElement {
+    const active = tab.id === activeId;
+    const closable = tab.closable ?? true;
+    const showClose = closable && (pointedId === tab.id || active);
+    return (
+      <div
+        key={tab.id}
+        data-tab-id={tab.id}
+        role="tab"
+        aria-selected={active}
+        tabIndex={active ? 0 : -1}
+        draggable={true}
+        style={{
+          display: "flex",
+          alignItems: "center",
+          flexShrink: 0,
+          height: "100%",
+          padding: "0 4px 0 12px",
+          cursor: "pointer",
+          outline: "none",
+          background: active ? "#ffffff" : "transparent",
+          boxShadow:
+            dropIndex === index
+              ? "inset 2px 0 0 #0078d4"
+              : dropIndex === index + 1 && index === tabs.length - 1
+              ? "inset -2px 0 0 #0078d4"
+              : undefined,
+        }}
+        onMouseEnter={() => setPointedId(tab.id)}
+        onMouseLeave={() => setPointedId(undefined)}
+        onMouseDown={(e) => {
+          if (e.button === 0) {
+            selectTab(tab.id);
+          } else if (e.button === 1) {
+            // --- Avoid auto-scrolling with the middle button
+            e.preventDefault();
+          }
+        }}
+        onMouseUp={(e) => {
+          if (e.button === 1 && closable) {
+            closeTab(tab.id);
+          }
+        }}
+        onDragStart={(e) => {
+          draggedId.current = tab.id;
+          e.dataTransfer.effectAllowed = "move";
+        }}
+        onDragOver={(e) => {
+          if (draggedId.current === undefined) {
+            return;
+          }
+          e.preventDefault();
+          const rect = e.currentTarget.getBoundingClientRect();
+          setDropIndex(
+            e.clientX < rect.left + rect.width / 2 ? index : index + 1
+          );
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          moveDraggedTab();
+        }}
+        onDragEnd={() => {
+          draggedId.current = undefined;
+          setDropIndex(-1);
+        }}
+      >
+        <span>{tab.title}</span>
+        <span
+          style={{
+            display: "inline-block",
+            width: 16,
+            marginLeft: 6,
+            textAlign: "center",
+            visibility: showClose || tab.dirty ? "visible" : "hidden",
+          }}
+          title={closable ? "Close" : undefined}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (closable) {
+              closeTab(tab.id);
+            }
+          }}
+        >
+          {tab.dirty && pointedId !== tab.id ? "●" : "×"}
+        </span>
+      </div>
+    );
+  }
+
+  /**
+   * Activates the specified tab
+   * @param id Tab ID
+   */
+  function selectTab(id: string): void {
+    if (id !== activeId) {
+      setActiveId(id);
+      onActiveTabChanged?.(id);
+    }
+  }
+
+  /**
+   * Closes the specified tab
+   * @param id Tab ID
+   */
+  function closeTab(id: string): void {
+    onTabClosed?.(id);
+  }
+
+  /**
+   * Moves the dragged tab to the drop position
+   */
+  function moveDraggedTab(): void {
+    const id = draggedId.current;
+    const fromIndex = tabs.findIndex((tab) => tab.id === id);
+    if (id !== undefined && fromIndex >= 0 && dropIndex >= 0) {
+      const newIndex = dropIndex > fromIndex ? dropIndex - 1 : dropIndex;
+      if (newIndex !== fromIndex) {
+        onTabMoved?.(id, newIndex);
+      }
+    }
+    draggedId.current = undefined;
+    setDropIndex(-1);
+  }
+
+  /**
+   * Handles the tab cycling keys
+   */
+  function handleKeys(e: React.KeyboardEvent): void {
+    if (e.key !== "Tab" || !e.ctrlKey || tabs.length === 0) {
+      return;
+    }
+    const index = tabs.findIndex((tab) => tab.id === activeId);
+    const newIndex =
+      (index + (e.shiftKey ? -1 : 1) + tabs.length) % tabs.length;
+    selectTab(tabs[newIndex].id);
+    e.preventDefault();
+    e.stopPropagation();
+  }
+
+  /**
+   * Scrolls the strip so that the specified tab gets visible
+   * @param id Tab ID
+   */
+  function scrollIntoView(id: string | undefined): void {
+    const strip = stripRef.current;
+    const tabElement = getTabElement(id);
+    if (!strip || !tabElement) {
+      return;
+    }
+    if (tabElement.offsetLeft < strip.scrollLeft) {
+      strip.scrollLeft = tabElement.offsetLeft;
+    } else if (
+      tabElement.offsetLeft + tabElement.offsetWidth >
+      strip.scrollLeft + strip.clientWidth
+    ) {
+      strip.scrollLeft =
+        tabElement.offsetLeft + tabElement.offsetWidth - strip.clientWidth;
+    }
+    updateHiddenTabs();
+  }
+
+  /**
+   * Gets the strip element of a particular tab
+   * @param id Tab ID
+   */
+  function getTabElement(id: string | undefined): HTMLElement | undefined {
+    const strip = stripRef.current;
+    if (!strip || id === undefined) {
+      return undefined;
+    }
+    return Array.from(strip.children).find(
+      (child) => (child as HTMLElement).dataset.tabId === id
+    ) as HTMLElement | undefined;
+  }
+
+  /**
+   * Collects the tabs that are not entirely visible in the strip
+   */
+  function updateHiddenTabs(): void {
+    const strip = stripRef.current;
+    if (!strip) {
+      return;
+    }
+    const hidden: string[] = [];
+    Array.from(strip.children).forEach((child) => {
+      const element = child as HTMLElement;
+      if (
+        element.offsetLeft < strip.scrollLeft ||
+        element.offsetLeft + element.offsetWidth >
+          strip.scrollLeft + strip.clientWidth
+      ) {
+        hidden.push(element.dataset.tabId);
+      }
+    });
+
+    // --- Avoid re-rendering when nothing has changed
+    if (
+      hidden.length !== hiddenTabs.length ||
+      hidden.some((id, index) => id !== hiddenTabs[index])
+    ) {
+      setHiddenTabs(hidden);
+    }
+  }
+};
@@ -0,0 +1,163 @@
+import * as React from "react";
+import { act, render } from "@testing-library/react";
+import { VirtualizedGrid, VirtualizedGridProps } from "./VirtualizedGrid";
+
+/**
+ * Resize observer that reports the observed elements on demand
+ */
+class ManualResizeObserver implements ResizeObserver {
+  static instances: ManualResizeObserver[] = [];
+  readonly observed = new Set<Element>();
+
+  constructor(private readonly callback: ResizeObserverCallback) {
+    ManualResizeObserver.instances.push(this);
+  }
+
+  observe(target: Element): void {
+    this.observed.add(target);
+  }
+
+  unobserve(target: Element): void {
+    this.observed.delete(target);
+  }
+
+  disconnect(): void {
+    this.observed.clear();
+  }
+
+  /**
+   * Reports all observed elements as resized
+   */
+  notify(): void {
+    const entries = Array.from(this.observed).map(
+      (target) => ({ target } as ResizeObserverEntry)
+    );
+    this.callback(entries, this);
+  }
+}
+
+describe("VirtualizedGrid", () => {
+  const originalResizeObserver = window.ResizeObserver;
+  let frames: FrameRequestCallback[];
+
+  beforeEach(() => {
+    ManualResizeObserver.instances = [];
+    window.ResizeObserver = ManualResizeObserver;
+
+    // --- The host is 400x200; a cell is as large as its minimum size,
+    // --- unless it is marked as a wide and tall one
+    jest
+      .spyOn(HTMLElement.prototype, "offsetHeight", "get")
+      .mockImplementation(function (this: HTMLElement) {
+        if (this.dataset.row === undefined) {
+          return 200;
+        }
+        return this.dataset.large ? 50 : parseFloat(this.style.minHeight);
+      });
+    jest
+      .spyOn(HTMLElement.prototype, "offsetWidth", "get")
+      .mockImplementation(function (this: HTMLElement) {
+        if (this.dataset.row === undefined) {
+          return 400;
+        }
+        return this.dataset.large ? 120 : parseFloat(this.style.minWidth);
+      });
+
+    // --- Run the animation frames on demand
+    frames = [];
+    jest
+      .spyOn(window, "requestAnimationFrame")
+      .mockImplementation((callback) => frames.push(callback));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    window.ResizeObserver = originalResizeObserver;
+  });
+
+  /**
+   * Renders a grid with 100 rows and 100 columns; the cell in the second
+   * row and column is larger than the others
+   */
+  function renderGrid(props: Partial<VirtualizedGridProps> = {}) {
+    return render(
+      <VirtualizedGrid
+        rowCount={100}
+        columnCount={100}
+        rowHeight={20}
+        columnWidth={80}
+        renderCell={(row, column, style) => (
+          <div
+            className="cell"
+            data-large={row === 1 && column === 1 ? "true" : undefined}
+            style={style}
+          >
+            {row}:{column}
+          </div>
+        )}
+        {...props}
+      />
+    );
+  }
+
+  /**
+   * Gets the rendered cell of the specified row and column
+   */
+  function getCell(container: HTMLElement, row: number, column: number) {
+    return Array.from(container.querySelectorAll<HTMLElement>(".cell")).find(
+      (cell) => cell.textContent === `${row}:${column}`
+    )!;
+  }
+
+  /**
+   * Reports the observed cells as resized, and applies their sizes
+   */
+  function measureCells(): void {
+    act(() => {
+      ManualResizeObserver.instances.forEach((observer) => observer.notify());
+      const pending = frames;
+      frames = [];
+      pending.forEach((callback) => callback(0));
+    });
+  }
+
+  it("uses the given sizes when cells are not measured", () => {
+    const { container } = renderGrid();
+    measureCells();
+    expect(getCell(container, 2, 2).style.top).toBe("40px");
+    expect(getCell(container, 2, 2).style.left).toBe("160px");
+    expect(getCell(container, 1, 1).style.height).toBe("20px");
+  });
+
+  it("grows the rows and columns to the size of their cells", () => {
+    const onViewPortChanged = jest.fn();
+    const { container } = renderGrid({ autoMeasure: true, onViewPortChanged });
+    expect(onViewPortChanged).toHaveBeenLastCalledWith({
+      startRow: 0,
+      endRow: 10,
+      startColumn: 0,
+      endColumn: 5,
+    });
+    measureCells();
+
+    // --- The second row and column got larger
+    expect(getCell(container, 2, 2).style.top).toBe("70px");
+    expect(getCell(container, 2, 2).style.left).toBe("200px");
+    expect(getCell(container, 1, 0).style.minHeight).toBe("50px");
+    expect(getCell(container, 0, 1).style.minWidth).toBe("120px");
+    expect(onViewPortChanged).toHaveBeenLastCalledWith({
+      startRow: 0,
+      endRow: 8,
+      startColumn: 0,
+      endColumn: 4,
+    });
+  });
+
+  it("observes only the rendered cells", () => {
+    renderGrid({ autoMeasure: true });
+    const [observer] = ManualResizeObserver.instances.filter(
+      (instance) => instance.observed.size > 1
+    );
+    expect(observer.observed.size).toBe(11 * 6);
+  });
+});
@@ -0,0 +1,915 @@
+import * as React from "react";
+import {
+  CSSProperties,
+  PropsWithChildren,
+  ReactElement,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import { FloatingScrollbar } from ".";
+import { createHeightIndex, HeightIndex } from "../../utils/height-index";
+import { calculateScrollPositionByKey } from "../../utils/key-helpers";
+import { useResizeObserver } from "../../utils/useResizeObserver";
+import { ScrollbarApi } from "./FloatingScrollbar";
+
+/**
+ * The function that renders a particular cell of the grid
+ */
+export type CellRenderer = (
+  row: number,
+  column: number,
+  style: CSSProperties
+) => JSX.Element;
+
+/**
+ * The size of rows or columns: either a fixed size, or a function that
+ * retrieves the size of a particular row or column
+ */
+export type GridItemSize = number | ((index: number) => number);
+
+/**
+ * The rows and columns visible in the grid
+ */
+export type GridViewport = {
+  startRow: number;
+  endRow: number;
+  startColumn: number;
+  endColumn: number;
+};
+
+/**
+ * Represents the API the hosts of a virtualized grid can invoke
+ */
+export type VirtualizedGridApi = {
+  /**
+   * Forces refreshing the grid
+   */
+  forceRefresh: () => void;
+
+  /**
+   * Scrolls to the specified position
+   */
+  scrollTo: (top: number, left: number) => void;
+
+  /**
+   * Scrolls the specified cell to the top-left corner of the scrollable area
+   */
+  scrollToCell: (row: number, column: number) => void;
+
+  /**
+   * Retrieves the current viewport of the grid
+   */
+  getViewPort: () => GridViewport;
+
+  /**
+   * Ensures that the specified cell gets entirely visible
+   */
+  ensureVisible: (row: number, column: number) => void;
+
+  /**
+   * Changes the height of the specified row
+   */
+  setRowHeight: (row: number, height: number) => void;
+
+  /**
+   * Changes the width of the specified column
+   */
+  setColumnWidth: (column: number, width: number) => void;
+
+  /**
+   * Ensures that the virtualized grid gets the focus
+   */
+  focus: () => void;
+};
+
+/**
+ * The properties of the virtualized grid
+ */
+export type VirtualizedGridProps = {
+  /**
+   * The number of rows in the grid
+   */
+  rowCount: number;
+
+  /**
+   * The number of columns in the grid
+   */
+  columnCount: number;
+
+  /**
+   * Row heights; read when the number of rows changes
+   */
+  rowHeight?: GridItemSize;
+
+  /**
+   * Column widths; read when the number of columns changes
+   */
+  columnWidth?: GridItemSize;
+
+  /**
+   * Observe the size of the rendered cells. A row grows to the height of its
+   * tallest rendered cell, a column to the width of its widest one; the row
+   * and column sizes are the minimum sizes of the cells.
+   */
+  autoMeasure?: boolean;
+
+  /**
+   * The number of leading rows that do not scroll vertically
+   */
+  frozenRows?: number;
+
+  /**
+   * The number of leading columns that do not scroll horizontally
+   */
+  frozenColumns?: number;
+
+  /**
+   * Is the virtualized grid focusable?
+   */
+  focusable?: boolean;
+
+  /**
+   * Extra style information to add to the grid
+   */
+  style?: CSSProperties;
+
+  /**
+   * Indicates that scrollbars should be displayed
+   */
+  showScrollbars?: boolean;
+
+  /**
+   * Scrolling speed when using the mouse wheel
+   */
+  wheelSpeed?: number;
+
+  /**
+   * The function that renders a particular cell
+   */
+  renderCell: CellRenderer;
+
+  /**
+   * Function to register the API of the virtualized grid
+   */
+  registerApi?: (api: VirtualizedGridApi) => void;
+
+  /**
+   * Function called when the grid's scroll position has been changed
+   */
+  onScrolled?: (top: number, left: number) => void;
+
+  /**
+   * Function called when the grid receives the focus
+   */
+  onFocus?: () => void;
+
+  /**
+   * Function called when the grid losts the focus
+   */
+  onBlur?: () => void;
+
+  /**
+   * Function called when the grid's viewport changes
+   */
+  onViewPortChanged?: (viewport: GridViewport) => void;
+
+  /**
+   * Function called when the container's size changes
+   */
+  onResized?: (width: number, height: number) => void;
+
+  /**
+   * The host can take control of handling the keys
+   */
+  handleKeys?: (e: React.KeyboardEvent) => void;
+};
+
+/**
+ * Implements a grid virtualized both vertically and horizontally. The leading
+ * rows and columns can be frozen.
+ */
+export const VirtualizedGrid: React.FC<VirtualizedGridProps> = ({
+  rowCount,
+  columnCount,
+  rowHeight = 20,
+  columnWidth = 80,
+  autoMeasure = false,
+  frozenRows = 0,
+  frozenColumns = 0,
+  focusable,
+  style,
+  showScrollbars = false,
+  wheelSpeed = 1.0,
+  renderCell,
+  registerApi,
+  onScrolled,
+  onFocus,
+  onBlur,
+  onViewPortChanged,
+  onResized,
+  handleKeys,
+}: PropsWithChildren<VirtualizedGridProps>) => {
+  // --- Explicit state
+  const [position, setPosition] = useState({ top: 0, left: 0 });
+  const [, setRefreshTrigger] = useState(0);
+
+  // --- Intrinsic state
+  const mounted = useRef(false);
+  const rows = useRef<HeightIndex>(createHeightIndex(0, 0));
+  const columns = useRef<HeightIndex>(createHeightIndex(0, 0));
+  const scrollPosition = useRef({ top: 0, left: 0 });
+  const lastViewport = useRef<GridViewport>();
+  const cellObserver = useRef<ResizeObserver>();
+  const observedCells = useRef(new Map<Element, string>());
+  const observedSizes = useRef<ObservedSizes>(createObservedSizes());
+  const observedSizesFrame = useRef(-1);
+
+  // --- Other references
+  const componentHost = useRef<HTMLDivElement>();
+  const verticalApi = useRef<ScrollbarApi>();
+  const horizontalApi = useRef<ScrollbarApi>();
+
+  // --------------------------------------------------------------------------
+  // Mount and unmount the component
+
+  useEffect(() => {
+    if (!mounted.current) {
+      mounted.current = true;
+
+      // --- Register the API with the host component
+      registerApi?.({
+        forceRefresh: () => refresh(),
+        scrollTo: (top, left) => scrollTo(top, left),
+        scrollToCell: (row, column) => scrollToCell(row, column),
+        getViewPort: () => getViewPort(),
+        ensureVisible: (row, column) => ensureVisible(row, column),
+        setRowHeight: (row, height) => {
+          rows.current.setHeight(row, height);
+          refreshSizes();
+        },
+        setColumnWidth: (column, width) => {
+          columns.current.setHeight(column, width);
+          refreshSizes();
+        },
+        focus: () => focus(),
+      });
+    }
+
+    return () => {
+      mounted.current = false;
+    };
+  });
+
+  useEffect(
+    () => () => {
+      cellObserver.current?.disconnect();
+      cancelAnimationFrame(observedSizesFrame.current);
+    },
+    []
+  );
+
+  // --------------------------------------------------------------------------
+  // Whenever the number of rows or columns changes, initialize their sizes
+
+  useLayoutEffect(() => {
+    rows.current = createSizeIndex(rowCount, rowHeight);
+    forgetObservedCells();
+    refreshSizes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rowCount]);
+
+  useLayoutEffect(() => {
+    columns.current = createSizeIndex(columnCount, columnWidth);
+    forgetObservedCells();
+    refreshSizes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [columnCount]);
+
+  // --------------------------------------------------------------------------
+  // Update the UI
+  useLayoutEffect(() => {
+    updateScrollbarDimensions();
+    observeVisibleCells();
+
+    // --- Notify the host about the viewport change
+    const viewport = getViewPort();
+    const last = lastViewport.current;
+    if (
+      !last ||
+      last.startRow !== viewport.startRow ||
+      last.endRow !== viewport.endRow ||
+      last.startColumn !== viewport.startColumn ||
+      last.endColumn !== viewport.endColumn
+    ) {
+      lastViewport.current = viewport;
+      onViewPortChanged?.(viewport);
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // Respond to the resizing of the host component
+  useResizeObserver({
+    element: componentHost,
+    callback: () => {
+      const width = componentHost.current.offsetWidth;
+      const height = componentHost.current.offsetHeight;
+      refresh();
+
+      // --- Keep the scroll position within the new range
+      scrollTo(scrollPosition.current.top, scrollPosition.current.left);
+      onResized?.(width, height);
+    },
+  });
+
+  // --- Frozen rows and columns
+  const frozenRowCount = Math.min(frozenRows, rows.current.getCount());
+  const frozenColumnCount = Math.min(frozenColumns, columns.current.getCount());
+  const frozenHeight = rows.current.getTop(frozenRowCount);
+  const frozenWidth = columns.current.getTop(frozenColumnCount);
+  const viewport = getViewPort();
+
+  return (
+    <>
+      {
+        // --- The container for the viewport of the virtualized grid
+      }
+      <div
+        tabIndex={focusable ? 0 : -1}
+        ref={componentHost}
+        style={{
+          ...style,
+          overflow: "hidden",
+          position: "relative",
+          height: "100%",
+        }}
+        onWheel={(e) => {
+          const deltaX = e.shiftKey ? e.deltaY : e.deltaX;
+          const deltaY = e.shiftKey ? 0 : e.deltaY;
+          scrollTo(
+            scrollPosition.current.top +
+              ((wheelSpeed * deltaY) / 20) * getStepSize(rowHeight),
+            scrollPosition.current.left +
+              ((wheelSpeed * deltaX) / 20) * getStepSize(columnWidth)
+          );
+        }}
+        onKeyDown={(e) => {
+          if (handleKeys) {
+            handleKeys(e);
+          } else {
+            handleScrollKeys(e);
+          }
+        }}
+        onFocus={() => onFocus?.()}
+        onBlur={() => onBlur?.()}
+        onMouseEnter={() => displayScrollbars(true)}
+        onMouseLeave={() => displayScrollbars(false)}
+      >
+        {
+          // --- The scrolling cells
+        }
+        {renderRegion(
+          { top: frozenHeight, left: frozenWidth, right: 0, bottom: 0 },
+          viewport.startRow,
+          viewport.endRow,
+          viewport.startColumn,
+          viewport.endColumn,
+          frozenHeight + position.top,
+          frozenWidth + position.left
+        )}
+        {
+          // --- The frozen rows scroll only horizontally
+        }
+        {renderRegion(
+          { top: 0, left: frozenWidth, right: 0, height: frozenHeight },
+          0,
+          frozenRowCount - 1,
+          viewport.startColumn,
+          viewport.endColumn,
+          0,
+          frozenWidth + position.left
+        )}
+        {
+          // --- The frozen columns scroll only vertically
+        }
+        {renderRegion(
+          { top: frozenHeight, left: 0, bottom: 0, width: frozenWidth },
+          viewport.startRow,
+          viewport.endRow,
+          0,
+          frozenColumnCount - 1,
+          frozenHeight + position.top,
+          0
+        )}
+        {
+          // --- The top-left corner does not scroll at all
+        }
+        {renderRegion(
+          { top: 0, left: 0, width: frozenWidth, height: frozenHeight },
+          0,
+          frozenRowCount - 1,
+          0,
+          frozenColumnCount - 1,
+          0,
+          0
+        )}
+      </div>
+      {
+        // --- Vertical scrollbar
+      }
+      <FloatingScrollbar
+        direction="vertical"
+        barSize={16}
+        stepSize={getStepSize(rowHeight)}
+        registerApi={(api) => (verticalApi.current = api)}
+        moved={(delta) => scrollTo(delta, scrollPosition.current.left)}
+        forceShow={showScrollbars}
+      />
+      {
+        // --- Horizontal scrollbar
+      }
+      <FloatingScrollbar
+        direction="horizontal"
+        barSize={10}
+        stepSize={getStepSize(columnWidth)}
+        registerApi={(api) => (horizontalApi.current = api)}
+        moved={(delta) => scrollTo(scrollPosition.current.top, delta)}
+        forceShow={showScrollbars}
+      />
+    </>
+  );
+
+  // --------------------------------------------------------------------------
+  // Helper functions
+
+  /**
+   * Renders the cells of a particular grid region
+   * @param regionStyle The position of the region within the grid
+   * @param startRow The first row to render
+   * @param endRow The last row to render
+   * @param startColumn The first column to render
+   * @param endColumn The last column to render
+   * @param offsetTop The vertical offset of the region's content
+   * @param offsetLeft The horizontal offset of the region's content
+   */
+  function renderRegion(
+    regionStyle: CSSProperties,
+    startRow: number,
+    endRow: number,
+    startColumn: number,
+    endColumn: number,
+    offsetTop: number,
+    offsetLeft: number
+  ): ReactElement | null {
+    if (startRow < 0 || startColumn < 0 || endRow < 0 || endColumn < 0) {
+      return null;
+    }
+    const cells: ReactElement[] = [];
+    for (let row = startRow; row <= endRow; row++) {
+      const top = rows.current.getTop(row) - offsetTop;
+      const height = rows.current.getHeight(row);
+      for (let column = startColumn; column <= endColumn; column++) {
+        const left = columns.current.getTop(column) - offsetLeft;
+        const width = columns.current.getHeight(column);
+        const cell = autoMeasure
+          ? React.cloneElement(
+              renderCell(row, column, {
+                position: "absolute",
+                top,
+                left,
+                minWidth: width,
+                minHeight: height,
+              }),
+              { "data-row": row, "data-column": column }
+            )
+          : renderCell(row, column, {
+              position: "absolute",
+              top,
+              left,
+              width,
+              height,
+              overflow: "hidden",
+            });
+        cells.push(
+          <React.Fragment key={`${row}:${column}`}>{cell}</React.Fragment>
+        );
+      }
+    }
+    return (
+      <div style={{ position: "absolute", overflow: "hidden", ...regionStyle }}>
+        {cells}
+      </div>
+    );
+  }
+
+  /**
+   * Gets the scrollable range of the grid
+   */
+  function getScrollRange(): { top: number; left: number } {
+    const host = componentHost.current;
+    if (!host) {
+      return { top: 0, left: 0 };
+    }
+    return {
+      top: Math.max(0, rows.current.getTotalHeight() - host.offsetHeight),
+      left: Math.max(0, columns.current.getTotalHeight() - host.offsetWidth),
+    };
+  }
+
+  /**
+   * Notes the changed row or column sizes, and refreshes the grid
+   */
+  function refreshSizes(): void {
+    scrollTo(scrollPosition.current.top, scrollPosition.current.left);
+    refresh();
+  }
+
+  /**
+   * Renders the grid again
+   */
+  function refresh(): void {
+    setRefreshTrigger((trigger) => trigger + 1);
+  }
+
+  /**
+   * Let the scrollbars know the new host component dimensions
+   */
+  function updateScrollbarDimensions(): void {
+    const host = componentHost.current;
+    if (!host) {
+      return;
+    }
+    verticalApi.current?.signHostDimension({
+      hostLeft: host.offsetLeft,
+      hostTop: host.offsetTop,
+      hostSize: host.offsetHeight,
+      hostCrossSize: host.offsetWidth,
+      hostScrollPos: scrollPosition.current.top,
+      hostScrollSize: rows.current.getTotalHeight(),
+    });
+    horizontalApi.current?.signHostDimension({
+      hostLeft: host.offsetLeft,
+      hostTop: host.offsetTop,
+      hostSize: host.offsetWidth,
+      hostCrossSize: host.offsetHeight,
+      hostScrollPos: scrollPosition.current.left,
+      hostScrollSize: columns.current.getTotalHeight(),
+    });
+  }
+
+  /**
+   * Handles the scrolling keys
+   */
+  function handleScrollKeys(e: React.KeyboardEvent): void {
+    const { top, left } = scrollPosition.current;
+    const columnStep = getStepSize(columnWidth);
+    switch (e.key) {
+      case "ArrowLeft":
+        scrollTo(top, left - columnStep);
+        break;
+      case "ArrowRight":
+        scrollTo(top, left + columnStep);
+        break;
+      default:
+        scrollTo(
+          calculateScrollPositionByKey(
+            componentHost.current,
+            e.key,
+            e.shiftKey,
+            getStepSize(rowHeight),
+            false,
+            top,
+            rows.current.getTotalHeight()
+          ),
+          left
+        );
+        break;
+    }
+  }
+
+  /**
+   * Starts observing the size of the rendered cells, and stops observing
+   * the cells that are not rendered anymore
+   */
+  function observeVisibleCells(): void {
+    if (!autoMeasure) {
+      cellObserver.current?.disconnect();
+      cellObserver.current = undefined;
+      observedCells.current.clear();
+      return;
+    }
+
+    // --- All cells share the same observer
+    if (!cellObserver.current) {
+      cellObserver.current = new ResizeObserver((entries) =>
+        queueObservedSizes(entries)
+      );
+    }
+    const observer = cellObserver.current;
+    const cells = new Set<Element>(
+      Array.from(
+        componentHost.current?.querySelectorAll("[data-row][data-column]") ?? []
+      )
+    );
+    observedCells.current.forEach((_, cell) => {
+      if (!cells.has(cell)) {
+        observer.unobserve(cell);
+        observedCells.current.delete(cell);
+      }
+    });
+
+    // --- A reused element is observed again to measure its new cell
+    cells.forEach((cell) => {
+      const { row, column } = (cell as HTMLElement).dataset;
+      const key = `${row}:${column}`;
+      const observedKey = observedCells.current.get(cell);
+      if (observedKey !== key) {
+        if (observedKey !== undefined) {
+          observer.unobserve(cell);
+        }
+        observer.observe(cell);
+        observedCells.current.set(cell, key);
+      }
+    });
+  }
+
+  /**
+   * Stops observing all cells so that they get measured again when
+   * observed the next time
+   */
+  function forgetObservedCells(): void {
+    cellObserver.current?.disconnect();
+    observedCells.current.clear();
+  }
+
+  /**
+   * Collects the observed cell sizes, and applies them in the next frame
+   * @param entries The resized cells
+   */
+  function queueObservedSizes(entries: ResizeObserverEntry[]): void {
+    const sizes = observedSizes.current;
+    for (const entry of entries) {
+      const element = entry.target as HTMLElement;
+      const row = Number(element.dataset.row);
+      const column = Number(element.dataset.column);
+      if (element.isConnected && !isNaN(row) && !isNaN(column)) {
+        sizes.rows.set(
+          row,
+          Math.max(sizes.rows.get(row) ?? 0, element.offsetHeight)
+        );
+        sizes.columns.set(
+          column,
+          Math.max(sizes.columns.get(column) ?? 0, element.offsetWidth)
+        );
+      }
+    }
+    if (observedSizesFrame.current < 0) {
+      observedSizesFrame.current = requestAnimationFrame(() => {
+        observedSizesFrame.current = -1;
+        applyObservedSizes();
+      });
+    }
+  }
+
+  /**
+   * Stores the observed row heights and column widths
+   */
+  function applyObservedSizes(): void {
+    const sizes = observedSizes.current;
+    observedSizes.current = createObservedSizes();
+    const rowsChanged = applySizes(rows.current, sizes.rows);
+    const columnsChanged = applySizes(columns.current, sizes.columns);
+    if (rowsChanged || columnsChanged) {
+      refreshSizes();
+    }
+  }
+
+  /**
+   * Displays or hides the scrollbars
+   * @param show Indicates if scrollbars should be displayed
+   */
+  function displayScrollbars(show: boolean): void {
+    verticalApi.current?.display(show);
+    horizontalApi.current?.display(show);
+  }
+
+  // --------------------------------------------------------------------------
+  // Virtualized grid API to be called by host components
+
+  /**
+   * Scrolls to the specified position
+   */
+  function scrollTo(top: number, left: number): void {
+    const range = getScrollRange();
+    const newPosition = {
+      top: Math.max(0, Math.min(top, range.top)),
+      left: Math.max(0, Math.min(left, range.left)),
+    };
+    const current = scrollPosition.current;
+    if (newPosition.top === current.top && newPosition.left === current.left) {
+      return;
+    }
+    scrollPosition.current = newPosition;
+    setPosition(newPosition);
+    onScrolled?.(newPosition.top, newPosition.left);
+  }
+
+  /**
+   * Scrolls the specified cell to the top-left corner of the scrollable area
+   */
+  function scrollToCell(row: number, column: number): void {
+    const { top, left } = getScrollableOffsets();
+    scrollTo(
+      row >= 0 && row < rows.current.getCount()
+        ? rows.current.getTop(row) - top
+        : scrollPosition.current.top,
+      column >= 0 && column < columns.current.getCount()
+        ? columns.current.getTop(column) - left
+        : scrollPosition.current.left
+    );
+  }
+
+  /**
+   * Retrieves the current viewport of the grid. The viewport contains only
+   * the scrolling rows and columns.
+   */
+  function getViewPort(): GridViewport {
+    const host = componentHost.current;
+    const { top, left } = getScrollableOffsets();
+    const { top: scrollTop, left: scrollLeft } = scrollPosition.current;
+    const [startRow, endRow] = getVisibleRange(
+      rows.current,
+      top + scrollTop,
+      scrollTop + (host?.offsetHeight ?? 0)
+    );
+    const [startColumn, endColumn] = getVisibleRange(
+      columns.current,
+      left + scrollLeft,
+      scrollLeft + (host?.offsetWidth ?? 0)
+    );
+    return { startRow, endRow, startColumn, endColumn };
+  }
+
+  /**
+   * Ensures that the specified cell gets entirely visible
+   */
+  function ensureVisible(row: number, column: number): void {
+    const host = componentHost.current;
+    if (!host) {
+      return;
+    }
+    const { top, left } = getScrollableOffsets();
+    scrollTo(
+      getVisiblePosition(
+        rows.current,
+        row,
+        top,
+        scrollPosition.current.top,
+        host.offsetHeight
+      ),
+      getVisiblePosition(
+        columns.current,
+        column,
+        left,
+        scrollPosition.current.left,
+        host.offsetWidth
+      )
+    );
+  }
+
+  /**
+   * Gets the total size of the frozen rows and columns
+   */
+  function getScrollableOffsets(): { top: number; left: number } {
+    return {
+      top: rows.current.getTop(Math.min(frozenRows, rows.current.getCount())),
+      left: columns.current.getTop(
+        Math.min(frozenColumns, columns.current.getCount())
+      ),
+    };
+  }
+
+  /**
+   * Ensures that the virtualized grid gets the focus
+   */
+  function focus(): void {
+    requestAnimationFrame(() => componentHost.current?.focus());
+  }
+};
+
+// ----------------------------------------------------------------------------
+// Helper functions
+
+/**
+ * Creates the index of row heights or column widths
+ * @param count The number of rows or columns
+ * @param size Size definition
+ */
+function createSizeIndex(count: number, size: GridItemSize): HeightIndex {
+  if (typeof size === "number") {
+    return createHeightIndex(count, size);
+  }
+  const index = createHeightIndex(count, 0);
+  for (let i = 0; i < count; i++) {
+    index.setHeight(i, size(i));
+  }
+  return index;
+}
+
+/**
+ * Creates an empty collection of observed sizes
+ */
+function createObservedSizes(): ObservedSizes {
+  return { rows: new Map(), columns: new Map() };
+}
+
+/**
+ * Stores the measured sizes of rows or columns
+ * @param index Row heights or column widths
+ * @param measured The measured sizes by row or column index
+ * @returns True, if any of the sizes has changed
+ */
+function applySizes(
+  index: HeightIndex,
+  measured: Map<number, number>
+): boolean {
+  let changed = false;
+  measured.forEach((size, item) => {
+    if (item < index.getCount() && index.getHeight(item) !== size) {
+      index.setHeight(item, size);
+      changed = true;
+    }
+  });
+  return changed;
+}
+
+/**
+ * Gets the size used as a scrolling step
+ * @param size Size definition
+ */
+function getStepSize(size: GridItemSize): number {
+  return typeof size === "number" ? size : size(0) || 20;
+}
+
+/**
+ * Gets the range of the rows (or columns) visible in the viewport
+ * @param sizes Row heights or column widths
+ * @param start The start position of the visible range
+ * @param end The end position of the visible range
+ * @returns The indexes of the first and last visible item; -1 if none
+ */
+function getVisibleRange(
+  sizes: HeightIndex,
+  start: number,
+  end: number
+): [number, number] {
+  if (start >= sizes.getTotalHeight() || end <= start) {
+    return [-1, -1];
+  }
+  return [sizes.findIndex(start), sizes.findIndex(end)];
+}
+
+/**
+ * Gets the scroll position that makes a row (or column) entirely visible
+ * @param sizes Row heights or column widths
+ * @param index Row (or column) index
+ * @param frozenSize The size of the frozen rows (or columns)
+ * @param scrollPos The current scroll position
+ * @param viewSize The size of the viewport
+ */
+function getVisiblePosition(
+  sizes: HeightIndex,
+  index: number,
+  frozenSize: number,
+  scrollPos: number,
+  viewSize: number
+): number {
+  if (index < 0 || index >= sizes.getCount()) {
+    return scrollPos;
+  }
+  const start = sizes.getTop(index) - frozenSize;
+  if (start < 0) {
+    // --- Frozen items are always visible
+    return scrollPos;
+  }
+  const end = start + sizes.getHeight(index);
+  if (start < scrollPos) {
+    return start;
+  }
+  if (end > scrollPos + viewSize - frozenSize) {
+    return end - viewSize + frozenSize;
+  }
+  return scrollPos;
+}
+
+// ----------------------------------------------------------------------------
+// Helper types
+
+/**
+ * The sizes measured from the rendered cells
+ */
+type ObservedSizes = {
+  rows: Map<number, number>;
+  columns: Map<number, number>;
+};
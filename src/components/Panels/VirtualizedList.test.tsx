@@ -0,0 +1,614 @@
+import * as React from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+import {
+  ItemRenderState,
+  VirtualizedList,
+  VirtualizedListApi,
+  VirtualizedListProps,
+} from "./VirtualizedList";
+
+const ITEM_HEIGHT = 20;
+const HOST_HEIGHT = 200;
+
+/**
+ * Renders a list of 1000 items with a 200px high viewport
+ */
+function renderList(props: Partial<VirtualizedListProps>) {
+  let api: VirtualizedListApi | undefined;
+  const createList = (listProps: Partial<VirtualizedListProps>) => (
+    <VirtualizedList
+      itemsCount={1000}
+      itemHeight={ITEM_HEIGHT}
+      overscan={0}
+      renderItem={(index, style) => <div style={style}>Item #{index}</div>}
+      registerApi={(listApi) => (api = listApi)}
+      {...listProps}
+    />
+  );
+  const result = render(createList(props));
+  return {
+    ...result,
+    api: () => api!,
+    update: (newProps: Partial<VirtualizedListProps>) =>
+      result.rerender(createList({ ...props, ...newProps })),
+  };
+}
+
+/**
+ * Gets the rendered item elements by their index
+ */
+function getItemElements(container: HTMLElement): Map<number, Element> {
+  const elements = new Map<number, Element>();
+  container.querySelectorAll("[data-index]").forEach((element) => {
+    elements.set(Number(element.getAttribute("data-index")), element);
+  });
+  return elements;
+}
+
+describe("VirtualizedList", () => {
+  const offsetHeight = Object.getOwnPropertyDescriptor(
+    HTMLElement.prototype,
+    "offsetHeight"
+  );
+
+  beforeAll(() => {
+    // --- jsdom does not lay out the elements
+    Object.defineProperty(HTMLElement.prototype, "offsetHeight", {
+      configurable: true,
+      get() {
+        return this.hasAttribute("data-index") ? ITEM_HEIGHT : HOST_HEIGHT;
+      },
+    });
+  });
+
+  afterAll(() => {
+    Object.defineProperty(HTMLElement.prototype, "offsetHeight", offsetHeight!);
+  });
+
+  it("renders only the items in the viewport", () => {
+    const rendered: number[] = [];
+    const { container } = renderList({
+      onItemRendered: (index) => rendered.push(index),
+    });
+    const indexes = Array.from(getItemElements(container).keys());
+    expect(indexes[0]).toBe(0);
+    expect(indexes[indexes.length - 1]).toBe(HOST_HEIGHT / ITEM_HEIGHT);
+    expect(new Set(rendered)).toEqual(new Set(indexes));
+  });
+
+  it("does not render the unchanged items again while scrolling", () => {
+    const rendered: number[] = [];
+    const { api } = renderList({
+      onItemRendered: (index) => rendered.push(index),
+      getItemVersion: () => 1,
+    });
+    rendered.length = 0;
+    act(() => api().scrollToItemByIndex(3));
+    expect(rendered.sort((a, b) => a - b)).toEqual([11, 12, 13]);
+  });
+
+  it("renders the items with a new version again", () => {
+    let changedItem = -1;
+    const rendered: number[] = [];
+    const { api } = renderList({
+      onItemRendered: (index) => rendered.push(index),
+      getItemVersion: (index) => (index === changedItem ? 2 : 1),
+    });
+    rendered.length = 0;
+    changedItem = 4;
+    act(() => api().scrollToItemByIndex(1));
+    expect(rendered.sort((a, b) => a - b)).toEqual([4, 11]);
+  });
+
+  it("reuses the item containers while scrolling", () => {
+    const { container, api } = renderList({
+      onItemRendered: () => {},
+      getItemVersion: () => 1,
+      recycleItems: true,
+    });
+    const before = getItemElements(container);
+    act(() => api().scrollToItemByIndex(3));
+    const after = getItemElements(container);
+
+    // --- The items that remain visible keep their elements, the new items
+    // --- get the elements of the ones scrolled out
+    expect(after.size).toBe(before.size);
+    for (let index = 3; index <= 10; index++) {
+      expect(after.get(index)).toBe(before.get(index));
+    }
+    expect(new Set(after.values())).toEqual(new Set(before.values()));
+  });
+
+  describe("scrolling events", () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it("signs the start and the end of scrolling", () => {
+      const onScrollStart = jest.fn();
+      const onScrollEnd = jest.fn();
+      const { getByRole } = renderList({
+        onScrollStart,
+        onScrollEnd,
+        scrollIdleDelay: 300,
+      });
+      const host = getByRole("listbox");
+      fireEvent.wheel(host, { deltaY: 100 });
+      fireEvent.wheel(host, { deltaY: 100 });
+      expect(onScrollStart).toHaveBeenCalledTimes(1);
+
+      // --- Scrolling again postpones the end of scrolling
+      act(() => {
+        jest.advanceTimersByTime(200);
+      });
+      fireEvent.wheel(host, { deltaY: 100 });
+      act(() => {
+        jest.advanceTimersByTime(299);
+      });
+      expect(onScrollEnd).not.toHaveBeenCalled();
+      act(() => {
+        jest.advanceTimersByTime(1);
+      });
+      expect(onScrollStart).toHaveBeenCalledTimes(1);
+      expect(onScrollEnd).toHaveBeenCalledTimes(1);
+    });
+
+    it("tells the item renderer that the list is scrolling", () => {
+      const scrollingStates = new Map<number, boolean>();
+      const { getByRole } = renderList({
+        renderItem: (index, style, state) => {
+          scrollingStates.set(index, state.isScrolling);
+          return <div style={style}>Item #{index}</div>;
+        },
+        getItemVersion: () => 1,
+      });
+      fireEvent.wheel(getByRole("listbox"), { deltaY: 20 });
+      expect(scrollingStates.get(5)).toBe(true);
+      act(() => {
+        jest.runOnlyPendingTimers();
+      });
+      expect(scrollingStates.get(5)).toBe(false);
+    });
+  });
+
+  describe("data source", () => {
+    afterEach(() => jest.useRealTimers());
+
+    it("renders only the items of a loaded page again", async () => {
+      const requests: ((items: unknown[]) => void)[] = [];
+      const rendered: number[] = [];
+      renderList({
+        dataSource: {
+          pageSize: 5,
+          requestRange: () => new Promise((resolve) => requests.push(resolve)),
+        },
+        dataOverscan: 0,
+        getItemVersion: () => 1,
+        onItemRendered: (index) => rendered.push(index),
+      });
+      expect(requests.length).toBe(3);
+      rendered.length = 0;
+      await act(async () => requests[1](["a", "b", "c", "d", "e"]));
+      expect(rendered.sort((a, b) => a - b)).toEqual([5, 6, 7, 8, 9]);
+    });
+
+    it("requests a failed page again after a growing delay", async () => {
+      jest.useFakeTimers("modern");
+      let requests = 0;
+      renderList({
+        itemsCount: 5,
+        dataSource: {
+          pageSize: 5,
+          requestRange: () => {
+            requests++;
+            return Promise.reject(new Error("Offline"));
+          },
+        },
+      });
+      expect(requests).toBe(1);
+      await act(async () => {});
+      act(() => {
+        jest.advanceTimersByTime(999);
+      });
+      expect(requests).toBe(1);
+      act(() => {
+        jest.advanceTimersByTime(1);
+      });
+      expect(requests).toBe(2);
+
+      // --- The delay doubles after the second failure
+      await act(async () => {});
+      act(() => {
+        jest.advanceTimersByTime(1999);
+      });
+      expect(requests).toBe(2);
+      act(() => {
+        jest.advanceTimersByTime(1);
+      });
+      expect(requests).toBe(3);
+      await act(async () => {});
+    });
+  });
+
+  describe("following the tail", () => {
+    it.each(["fix", "variable"] as const)(
+      "keeps the last item visible while items arrive (%s)",
+      (heightMode) => {
+        const { api, update } = renderList({
+          itemsCount: 100,
+          heightMode,
+          calcBatchSize: 20,
+          followTail: true,
+        });
+        expect(api().getViewPort().endIndex).toBe(99);
+        update({ itemsCount: 150 });
+        expect(api().getViewPort().endIndex).toBe(149);
+        update({ itemsCount: 180 });
+        expect(api().getViewPort().endIndex).toBe(179);
+      }
+    );
+
+    it("restores the scroll state after measuring the items", () => {
+      const { api } = renderList({
+        itemsCount: 100,
+        heightMode: "variable",
+        calcBatchSize: 20,
+        obtainInitPos: () => ({ index: 50, offset: 0 }),
+      });
+      expect(api().getViewPort().startIndex).toBe(50);
+    });
+
+    it("pauses when the user scrolls away from the bottom", () => {
+      const onFollowTailChanged = jest.fn();
+      const { api, update, getByRole } = renderList({
+        itemsCount: 100,
+        followTail: true,
+        onFollowTailChanged,
+      });
+      onFollowTailChanged.mockClear();
+      fireEvent.wheel(getByRole("listbox"), { deltaY: -100 });
+      expect(onFollowTailChanged).toHaveBeenCalledWith(false);
+      const endIndex = api().getViewPort().endIndex;
+      update({ itemsCount: 150 });
+      expect(api().getViewPort().endIndex).toBe(endIndex);
+    });
+
+    it("resumes when the user scrolls back to the bottom", () => {
+      const onFollowTailChanged = jest.fn();
+      const { api, update, getByRole } = renderList({
+        itemsCount: 100,
+        followTail: true,
+        onFollowTailChanged,
+      });
+      const host = getByRole("listbox");
+      fireEvent.wheel(host, { deltaY: -100 });
+      onFollowTailChanged.mockClear();
+      fireEvent.wheel(host, { deltaY: 1000 });
+      expect(onFollowTailChanged).toHaveBeenCalledWith(true);
+      update({ itemsCount: 150 });
+      expect(api().getViewPort().endIndex).toBe(149);
+    });
+  });
+
+  describe("announcements", () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    /**
+     * Gets the text of the live region
+     */
+    function getAnnouncement(container: HTMLElement): string | null {
+      return container.querySelector("[aria-live]")!.textContent;
+    }
+
+    it("announces the viewport when scrolling settles", () => {
+      const { container, getByRole } = renderList({});
+      act(() => {
+        jest.runOnlyPendingTimers();
+      });
+      expect(getAnnouncement(container)).toBe("Items 1 to 11 of 1000");
+
+      const host = getByRole("listbox");
+      fireEvent.wheel(host, { deltaY: 100 });
+      act(() => {
+        jest.advanceTimersByTime(300);
+      });
+      fireEvent.wheel(host, { deltaY: 100 });
+      act(() => {
+        jest.advanceTimersByTime(300);
+      });
+      expect(getAnnouncement(container)).toBe("Items 1 to 11 of 1000");
+      act(() => {
+        jest.advanceTimersByTime(200);
+      });
+      expect(getAnnouncement(container)).toBe("Items 11 to 21 of 1000");
+    });
+
+    it("announces the focused item instead of the viewport", () => {
+      const { container, getByRole } = renderList({ selectionMode: "single" });
+      fireEvent.keyDown(getByRole("listbox"), { key: "End" });
+      expect(getAnnouncement(container)).toBe("Item 1000 of 1000, 1 selected");
+      act(() => {
+        jest.runOnlyPendingTimers();
+      });
+      expect(getAnnouncement(container)).toBe("Item 1000 of 1000, 1 selected");
+    });
+  });
+
+  describe("find bar", () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    /**
+     * Renders a list of 12000 items, and opens its find bar
+     */
+    function openFindBar(props: Partial<VirtualizedListProps> = {}) {
+      const result = renderList({
+        itemsCount: 12000,
+        getItemText: (index) => `Item #${index}`,
+        ...props,
+      });
+      fireEvent.keyDown(result.getByRole("listbox"), {
+        key: "f",
+        ctrlKey: true,
+      });
+      return result;
+    }
+
+    it("searches the items in slices", () => {
+      let searched = 0;
+      const { getByText, getByDisplayValue } = openFindBar({
+        getItemText: (index) => {
+          searched++;
+          return `Item #${index}`;
+        },
+      });
+      fireEvent.change(getByDisplayValue(""), {
+        target: { value: "item #1" },
+      });
+
+      // --- Only the first slice has been searched
+      expect(searched).toBe(5000);
+      getByText("1 of 1111");
+      act(() => {
+        jest.runAllTimers();
+      });
+      expect(searched).toBe(12000);
+      getByText("1 of 3111");
+    });
+
+    it("cancels the former search", () => {
+      let searched = 0;
+      const { getByText, getByDisplayValue } = openFindBar({
+        getItemText: (index) => {
+          searched++;
+          return `Item #${index}`;
+        },
+      });
+      const input = getByDisplayValue("");
+      fireEvent.change(input, { target: { value: "item #1" } });
+      fireEvent.change(input, { target: { value: "item #2" } });
+      act(() => {
+        jest.runAllTimers();
+      });
+      expect(searched).toBe(5000 + 12000);
+      getByText("1 of 1111");
+    });
+
+    it("navigates among the matches", () => {
+      const states = new Map<number, ItemRenderState>();
+      const { api, getByText, getByDisplayValue } = openFindBar({
+        renderItem: (index, style, state) => {
+          states.set(index, state);
+          return <div style={style}>Item #{index}</div>;
+        },
+      });
+      const input = getByDisplayValue("");
+      fireEvent.change(input, { target: { value: "item #11" } });
+      act(() => {
+        jest.runAllTimers();
+      });
+      getByText("1 of 1111");
+      expect(states.get(11)).toMatchObject({
+        matched: true,
+        currentMatch: true,
+      });
+      expect(states.get(12)).toMatchObject({ matched: false });
+
+      fireEvent.keyDown(input, { key: "Enter" });
+      getByText("2 of 1111");
+      expect(states.get(110)).toMatchObject({ currentMatch: true });
+      const viewport = api().getViewPort();
+      expect(viewport.startIndex).toBeLessThan(110);
+      expect(viewport.endIndex).toBeGreaterThan(110);
+
+      // --- Stepping back from the first match wraps around
+      fireEvent.keyDown(input, { key: "Enter", shiftKey: true });
+      fireEvent.keyDown(input, { key: "Enter", shiftKey: true });
+      getByText("1111 of 1111");
+      expect(states.get(11999)).toMatchObject({ currentMatch: true });
+    });
+
+    it("closes the find bar and removes the highlights", () => {
+      const states = new Map<number, ItemRenderState>();
+      const { queryByDisplayValue, getByDisplayValue } = openFindBar({
+        renderItem: (index, style, state) => {
+          states.set(index, state);
+          return <div style={style}>Item #{index}</div>;
+        },
+      });
+      const input = getByDisplayValue("");
+      fireEvent.change(input, { target: { value: "item #1" } });
+      act(() => {
+        jest.runAllTimers();
+      });
+      expect(states.get(1)).toMatchObject({ matched: true });
+      fireEvent.keyDown(input, { key: "Escape" });
+      expect(queryByDisplayValue("item #1")).toBeNull();
+      expect(states.get(1)).toMatchObject({ matched: false });
+    });
+  });
+
+  describe("type-ahead", () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    /**
+     * Types the specified text into the list
+     */
+    function type(host: HTMLElement, text: string): void {
+      for (const key of text) {
+        fireEvent.keyDown(host, { key });
+      }
+    }
+
+    it("selects the next item that starts with the typed text", () => {
+      const onSelectionChanged = jest.fn();
+      const { getByRole } = renderList({
+        selectionMode: "single",
+        getItemText: (index) => `Item #${index}`,
+        onSelectionChanged,
+      });
+      const host = getByRole("listbox");
+      type(host, "item #5");
+      expect(onSelectionChanged).toHaveBeenLastCalledWith(
+        [{ startIndex: 5, endIndex: 5 }],
+        5
+      );
+
+      // --- After a pause, the search starts again after the selected item
+      act(() => {
+        jest.advanceTimersByTime(500);
+      });
+      type(host, "item #5");
+      expect(onSelectionChanged).toHaveBeenLastCalledWith(
+        [{ startIndex: 50, endIndex: 50 }],
+        50
+      );
+    });
+
+    it("searches the items in slices", () => {
+      const onSelectionChanged = jest.fn();
+      const { getByRole } = renderList({
+        itemsCount: 12000,
+        selectionMode: "single",
+        getItemText: (index) => (index === 9000 ? "Zebra" : `Item #${index}`),
+        onSelectionChanged,
+      });
+      type(getByRole("listbox"), "z");
+      expect(onSelectionChanged).not.toHaveBeenCalled();
+      act(() => {
+        jest.runOnlyPendingTimers();
+      });
+      expect(onSelectionChanged).toHaveBeenLastCalledWith(
+        [{ startIndex: 9000, endIndex: 9000 }],
+        9000
+      );
+    });
+  });
+
+  describe("dragging items", () => {
+    let frames: Map<number, FrameRequestCallback>;
+    let nextFrame: number;
+
+    beforeEach(() => {
+      // --- The host is at the top of the window
+      jest
+        .spyOn(HTMLElement.prototype, "getBoundingClientRect")
+        .mockReturnValue({
+          top: 0,
+          bottom: HOST_HEIGHT,
+          height: HOST_HEIGHT,
+          left: 0,
+          right: 100,
+          width: 100,
+          x: 0,
+          y: 0,
+          toJSON: () => {},
+        });
+
+      // --- Run the animation frames on demand
+      frames = new Map();
+      nextFrame = 1;
+      jest
+        .spyOn(window, "requestAnimationFrame")
+        .mockImplementation((callback) => {
+          frames.set(nextFrame, callback);
+          return nextFrame++;
+        });
+      jest
+        .spyOn(window, "cancelAnimationFrame")
+        .mockImplementation((frame) => frames.delete(frame));
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    /**
+     * Runs the pending animation frames
+     */
+    function runFrames(): void {
+      act(() => {
+        const pending = Array.from(frames.values());
+        frames.clear();
+        pending.forEach((callback) => callback(0));
+      });
+    }
+
+    /**
+     * Starts dragging the item at the specified position
+     */
+    function startDrag(container: HTMLElement, clientY: number): void {
+      fireEvent.mouseDown(container.querySelector(".inner")!, {
+        button: 0,
+        clientY,
+      });
+    }
+
+    it("drops the item where the mouse is released", () => {
+      const onReorder = jest.fn();
+      const { container } = renderList({ reorderable: true, onReorder });
+      startDrag(container, 30);
+      fireEvent.mouseMove(window, { clientY: 110 });
+      fireEvent.mouseUp(window);
+      expect(onReorder).toHaveBeenCalledWith(1, 5);
+    });
+
+    it("does not reorder when the mouse barely moves", () => {
+      const onReorder = jest.fn();
+      const { container } = renderList({ reorderable: true, onReorder });
+      startDrag(container, 30);
+      fireEvent.mouseMove(window, { clientY: 32 });
+      fireEvent.mouseUp(window);
+      expect(onReorder).not.toHaveBeenCalled();
+    });
+
+    it("drops at the position the list has scrolled to", () => {
+      const onReorder = jest.fn();
+      const { container, api } = renderList({ reorderable: true, onReorder });
+      startDrag(container, 30);
+
+      // --- Near to the bottom edge, the list scrolls 13.5px per frame
+      fireEvent.mouseMove(window, { clientY: 195 });
+      runFrames();
+      runFrames();
+      expect(api().getViewPort().startIndex).toBe(1);
+      fireEvent.mouseUp(window);
+      expect(onReorder).toHaveBeenCalledWith(1, 10);
+    });
+
+    it("stops dragging when the list is unmounted", () => {
+      const onReorder = jest.fn();
+      const { container, unmount } = renderList({
+        reorderable: true,
+        onReorder,
+      });
+      startDrag(container, 30);
+      const firstScrollFrame = nextFrame;
+      fireEvent.mouseMove(window, { clientY: 195 });
+      expect(frames.has(firstScrollFrame)).toBe(true);
+      unmount();
+      expect(frames.has(firstScrollFrame)).toBe(false);
+      fireEvent.mouseUp(window);
+      expect(onReorder).not.toHaveBeenCalled();
+    });
+  });
+});
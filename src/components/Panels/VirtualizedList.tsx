@@ -9,17 +9,79 @@ import {
   useState,
 } from "react";
 import { FloatingScrollbar } from ".";
+import { createHeightIndex, HeightIndex } from "../../utils/height-index";
 import { calculateScrollPositionByKey } from "../../utils/key-helpers";
 import { useResizeObserver } from "../../utils/useResizeObserver";
 import { ScrollbarApi } from "./FloatingScrollbar";
+import { createPageCache, ListDataSource, PageCache } from "./list-data-source";
+import {
+  createSelection,
+  getClickAction,
+  getNavigationAction,
+  isSelected,
+  limitSelection,
+  ListSelection,
+  SelectionAction,
+  SelectionMode,
+  SelectionRange,
+  shiftSelection,
+  updateSelection,
+} from "./list-selection";
 
 const MAX_LIST_PIXELS = 10_000_000;
 const CALC_BATCH_SIZE = 1000;
+const BOTTOM_POSITION = Number.MAX_SAFE_INTEGER;
+const DATA_PAGE_SIZE = 100;
+const DATA_CACHED_PAGES = 50;
+const DATA_RETRY_DELAY = 1000;
+const DATA_MAX_RETRY_DELAY = 30_000;
+const FIND_BAR_WIDTH = 260;
+const DRAG_THRESHOLD = 4;
+const AUTO_SCROLL_ZONE = 32;
+const AUTO_SCROLL_SPEED = 0.5;
+const SEARCH_SLICE_SIZE = 5000;
+const VIEWPORT_ANNOUNCE_DELAY = 500;
+
+/**
+ * Counter to create unique list IDs
+ */
+let listIdCounter = 0;
+
+/**
+ * The state of a list item passed to the item renderer
+ */
+export type ItemRenderState = {
+  selected: boolean;
+  focused: boolean;
+  sticky: boolean;
+  matched: boolean;
+  currentMatch: boolean;
+
+  /**
+   * The user is scrolling the list; the renderer may display a lightweight
+   * version of the item
+   */
+  isScrolling: boolean;
+  data?: unknown;
+};
 
 /**
  * The function that renders a virtual list item
  */
-export type ItemRenderer = (index: number, style: CSSProperties) => JSX.Element;
+export type ItemRenderer = (
+  index: number,
+  style: CSSProperties,
+  state: ItemRenderState
+) => JSX.Element;
+
+/**
+ * A serializable scroll position: the first visible item, and the offset of
+ * the position within that item
+ */
+export type ScrollState = {
+  index: number;
+  offset: number;
+};
 
 /**
  * Desired position when displaying an item
@@ -70,15 +132,69 @@ export type VirtualizedListApi = {
    * Initiates remeasuring the specified range of items
    */
   remeasure: (start: number, end: number) => void;
+
+  /**
+   * Inserts new items at the specified index. The host should update
+   * `itemsCount` accordingly.
+   */
+  insertItems: (index: number, count: number) => void;
+
+  /**
+   * Removes items from the specified index. The host should update
+   * `itemsCount` accordingly.
+   */
+  removeItems: (index: number, count: number) => void;
+
+  /**
+   * Gets the ranges of the selected items in ascending order
+   */
+  getSelection: () => SelectionRange[];
+
+  /**
+   * Gets the index of the focused item
+   */
+  getFocusedIndex: () => number;
+
+  /**
+   * Sets the ranges of the selected items and the focused item
+   */
+  setSelection: (ranges: SelectionRange[], focusedIndex?: number) => void;
+
+  /**
+   * Gets the current scroll position anchored to an item
+   */
+  getScrollState: () => ScrollState | null;
+
+  /**
+   * Restores a scroll position captured with `getScrollState`
+   */
+  restoreScrollState: (state: ScrollState) => void;
+
+  /**
+   * Checks again which items are group headers; checks all items if no
+   * range is specified
+   */
+  refreshGroupHeaders: (start?: number, end?: number) => void;
 };
 
+/**
+ * The accessibility role of the virtualized list
+ * "listbox": The list is a listbox of options
+ * "grid": The list is a grid of rows; the content of a row is wrapped into a
+ * grid cell, unless the item renderer sets the role of the row
+ * "tree": The list displays the rows of a tree; the item renderer should set
+ * the level and position of tree items, otherwise the tree is flat
+ */
+export type ListRole = "listbox" | "grid" | "tree";
+
 /**
  * The item height mode of the virtualized list
  * "fix": Use the itemHeight property to set the initial size of items
  * "first": All items should have the height of the first item
  * "variable": Calculate the heights of all items
+ * "estimated": Use estimated heights, and measure only the rendered items
  */
-export type ItemHeightMode = "fix" | "first" | "variable";
+export type ItemHeightMode = "fix" | "first" | "variable" | "estimated";
 
 /**
  * The properties of the virtualized list
@@ -99,6 +215,12 @@ export type VirtualizedListProps = {
    */
   itemHeight?: number;
 
+  /**
+   * Estimates the height of an item before it is rendered (used only in
+   * "estimated" mode). By default, items are estimated to `itemHeight`.
+   */
+  estimateHeight?: (index: number) => number;
+
   /**
    * Is the virtualized list focusable?
    */
@@ -141,31 +263,182 @@ export type VirtualizedListProps = {
    */
   reposition?: boolean;
 
+  /**
+   * Observe the size of the rendered items, and update their heights
+   * automatically when their content changes. In "variable" mode, items are
+   * measured when they get rendered instead of measuring all of them
+   * up front. Items are always observed in "estimated" mode.
+   */
+  autoMeasure?: boolean;
+
   /**
    * Scrolling speed when using the mouse wheel
    */
   wheelSpeed?: number;
 
+  /**
+   * The number of milliseconds without scrolling after which scrolling is
+   * considered ended
+   */
+  scrollIdleDelay?: number;
+
+  /**
+   * Keeps the view pinned to the last item while new items arrive. Pinning
+   * pauses while the user scrolls away from the bottom of the list.
+   */
+  followTail?: boolean;
+
+  /**
+   * The selection mode of the list ("none" by default)
+   */
+  selectionMode?: SelectionMode;
+
   /**
    * The function that renders a particular item
    */
   renderItem: ItemRenderer;
 
+  /**
+   * The number of items rendered above and below the viewport
+   */
+  overscan?: number;
+
+  /**
+   * Gets the version of an item. When set, rendered items are kept until
+   * their version, position, or state changes.
+   */
+  getItemVersion?: (index: number) => unknown;
+
+  /**
+   * Reuse a pool of item containers while scrolling instead of mounting
+   * the items entering the viewport
+   */
+  recycleItems?: boolean;
+
+  /**
+   * The source of item data. Items are passed to `renderItem` in the `data`
+   * field of the item state after their page has been loaded.
+   */
+  dataSource?: ListDataSource;
+
+  /**
+   * The number of items to request before and after the viewport
+   */
+  dataOverscan?: number;
+
+  /**
+   * The function that renders an item while its data is being loaded
+   */
+  renderPlaceholder?: (index: number, style: CSSProperties) => JSX.Element;
+
+  /**
+   * Indicates that the user can reorder the items by dragging them
+   */
+  reorderable?: boolean;
+
+  /**
+   * Function that retrieves the text of an item. It enables type-ahead and
+   * the find bar (Ctrl+F).
+   */
+  getItemText?: (index: number) => string;
+
+  /**
+   * Number of milliseconds after which the type-ahead prefix is reset
+   */
+  typeAheadDelay?: number;
+
+  /**
+   * Function that tells if the specified item is a group header. The header
+   * of the current group sticks to the top of the viewport.
+   */
+  isGroupHeader?: (index: number) => boolean;
+
+  /**
+   * The accessibility role of the list ("listbox" by default)
+   */
+  role?: ListRole;
+
+  /**
+   * The accessible label of the list
+   */
+  ariaLabel?: string;
+
+  /**
+   * The ID of the element that labels the list
+   */
+  ariaLabelledBy?: string;
+
+  /**
+   * The prefix of item IDs used by `aria-activedescendant`; a unique prefix
+   * is generated by default
+   */
+  idPrefix?: string;
+
+  /**
+   * Indicates that viewport changes should be announced to screen readers
+   * when the viewport settles
+   */
+  announceViewport?: boolean;
+
+  /**
+   * Function that creates the text announcing the viewport
+   */
+  getViewportAnnouncement?: (
+    startIndex: number,
+    endIndex: number,
+    itemsCount: number
+  ) => string;
+
+  /**
+   * Indicates that focus and selection changes should be announced to
+   * screen readers
+   */
+  announceSelection?: boolean;
+
+  /**
+   * Function that creates the text announcing the focused item and the
+   * selection
+   */
+  getSelectionAnnouncement?: (
+    focusedIndex: number,
+    selectedCount: number,
+    itemsCount: number
+  ) => string;
+
   /**
    * Function to register the API of the virtualized list
    */
   registerApi?: (api: VirtualizedListApi) => void;
 
   /**
-   * Function to defin the initial scroll position
+   * Function to defin the initial scroll position: either a pixel position,
+   * or a scroll state captured with `getScrollState`
    */
-  obtainInitPos?: () => number | null;
+  obtainInitPos?: () => number | ScrollState | null;
 
   /**
    * Function called when the list's scroll position has been changed
    */
   onScrolled?: (topPos: number) => void;
 
+  /**
+   * Function called when the list's scroll position has been changed. It
+   * reports the position within the virtual coordinate space of the list,
+   * which may exceed the DOM scroll range.
+   */
+  onVirtualScrolled?: (topPos: number, totalHeight: number) => void;
+
+  /**
+   * Function called when the user starts scrolling the list
+   */
+  onScrollStart?: () => void;
+
+  /**
+   * Function called when the user has not scrolled the list for
+   * `scrollIdleDelay` milliseconds
+   */
+  onScrollEnd?: () => void;
+
   /**
    * Function called when the list receives the focus
    */
@@ -186,6 +459,29 @@ export type VirtualizedListProps = {
    */
   onResized?: (width: number, height: number) => void;
 
+  /**
+   * Function called when the user changes the selection
+   */
+  onSelectionChanged?: (
+    selectedRanges: SelectionRange[],
+    focusedIndex: number
+  ) => void;
+
+  /**
+   * Function called when the list starts or stops following the last item
+   */
+  onFollowTailChanged?: (following: boolean) => void;
+
+  /**
+   * Function called when the user drops a dragged item to a new position
+   */
+  onReorder?: (from: number, to: number) => void;
+
+  /**
+   * Function called whenever an item in the viewport is rendered
+   */
+  onItemRendered?: (index: number) => void;
+
   /**
    * The host can take control of handling the keys
    */
@@ -199,6 +495,7 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
   itemsCount,
   heightMode,
   itemHeight = 20,
+  estimateHeight,
   focusable,
   style,
   calcBatchSize = CALC_BATCH_SIZE,
@@ -207,15 +504,46 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
   horizontalRemeasure = false,
   horizontalSettleTime = 100,
   reposition = false,
+  autoMeasure = false,
   wheelSpeed = 1.0,
+  scrollIdleDelay = 150,
+  followTail = false,
+  selectionMode = "none",
   renderItem,
+  overscan = 0,
+  getItemVersion,
+  recycleItems = false,
+  dataSource,
+  dataOverscan = 20,
+  renderPlaceholder,
+  reorderable = false,
+  getItemText,
+  typeAheadDelay = 500,
+  isGroupHeader,
+  role = "listbox",
+  ariaLabel,
+  ariaLabelledBy,
+  idPrefix,
+  announceViewport = true,
+  getViewportAnnouncement = (startIndex, endIndex, count) =>
+    `Items ${startIndex + 1} to ${endIndex + 1} of ${count}`,
+  announceSelection = true,
+  getSelectionAnnouncement = (focusedIndex, selectedCount, count) =>
+    `Item ${focusedIndex + 1} of ${count}, ${selectedCount} selected`,
   registerApi,
   obtainInitPos,
   onScrolled,
+  onVirtualScrolled,
+  onScrollStart,
+  onScrollEnd,
   onFocus,
   onBlur,
   onViewPortChanged,
   onResized,
+  onSelectionChanged,
+  onFollowTailChanged,
+  onReorder,
+  onItemRendered,
   handleKeys,
 }: PropsWithChildren<VirtualizedListProps>) => {
   // --- Explicit state
@@ -224,17 +552,26 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
   const [elementsToMeasure, setElementsToSize] =
     useState<Map<number, JSX.Element>>();
   const [visibleElements, setVisibleElements] = useState<VisibleItem[]>();
+  const [stickyHeader, setStickyHeader] = useState<StickyHeader | null>(null);
+  const [findOpen, setFindOpen] = useState(false);
+  const [findText, setFindText] = useState("");
+  const [dropIndex, setDropIndex] = useState(-1);
+  const [announcement, setAnnouncement] = useState("");
+  const [listId] = useState(() => `virtualized-list-${++listIdCounter}`);
   const [remeasureTrigger, setRemeasureTrigger] = useState(0);
-  const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [, setRefreshTrigger] = useState(0);
 
   // --- Intrinsic state
   const mounted = useRef(false);
-  const heights = useRef<HeightInfo[]>([]);
-  const firstElementIndex = useRef(-1);
+  const heights = useRef<HeightIndex>(createHeightIndex(0, itemHeight));
+  const measuredIndexes = useRef<number[]>([]);
   const calculationQueue = useRef<number[]>([]);
   const cancelCalculation = useRef(false);
   const batchQueue = useRef<Viewport[]>();
   const scrollPosition = useRef(0);
+  const pendingPos = useRef(-1);
+  const listHeight = useRef(0);
+  const lastScrollOffset = useRef(0);
   const lastViewport = useRef<Viewport>({
     startIndex: -1,
     endIndex: -1,
@@ -242,7 +579,34 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
   const measuring = useRef(false);
   const lastContainerWidth = useRef(-1);
   const settleCounter = useRef(0);
-  const positionToIndex = useRef(-1);
+  const pinnedAnchor = useRef<ScrollState | null>(null);
+  const incrementalCount = useRef(-1);
+  const selection = useRef<ListSelection>(createSelection());
+  const groupHeaders = useRef<number[] | null>(null);
+  const lastStickyHeader = useRef<StickyHeader | null>(null);
+  const following = useRef(false);
+  const userScrolled = useRef(false);
+  const pageCache = useRef<PageCache>(createPageCache(DATA_CACHED_PAGES));
+  const pendingPages = useRef(new Map<number, number>());
+  const lastPageRequest = useRef(0);
+  const failedPages = useRef(new Map<number, FailedPage>());
+  const dataRetryTimer = useRef<ReturnType<typeof setTimeout>>();
+  const typeAheadPrefix = useRef("");
+  const typeAheadTimer = useRef<ReturnType<typeof setTimeout>>();
+  const searchToken = useRef(0);
+  const viewportAnnouncementTimer = useRef<ReturnType<typeof setTimeout>>();
+  const announcedViewport = useRef("");
+  const focusAnnounced = useRef(false);
+  const findMatches = useRef<FindMatches>({ indexes: [], current: -1 });
+  const drag = useRef<DragState | null>(null);
+  const itemObserver = useRef<ResizeObserver>();
+  const observedItems = useRef(new Map<Element, string>());
+  const observedHeights = useRef(new Map<number, number>());
+  const observedHeightsFrame = useRef(-1);
+  const itemCache = useRef(new Map<number, CachedItem>());
+  const recycledKeys = useRef(new Map<number, number>());
+  const scrolling = useRef(false);
+  const scrollIdleTimer = useRef<ReturnType<typeof setTimeout>>();
 
   // --- Other references
   const componentHost = useRef<HTMLDivElement>();
@@ -269,6 +633,15 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
         ensureVisible: (index, location) => ensureVisible(index, location),
         focus: () => () => focus(),
         remeasure: (start, end) => remeasure(start, end),
+        insertItems: (index, count) => insertItems(index, count),
+        removeItems: (index, count) => removeItems(index, count),
+        getSelection: () => getSelection(),
+        getFocusedIndex: () => selection.current.focusedIndex,
+        setSelection: (indexes, focusedIndex) =>
+          setSelection(indexes, focusedIndex),
+        getScrollState: () => getScrollAnchor(),
+        restoreScrollState: (state) => restoreScrollState(state),
+        refreshGroupHeaders: (start, end) => refreshGroupHeaders(start, end),
       });
     }
 
@@ -281,37 +654,120 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
     };
   });
 
+  // --------------------------------------------------------------------------
+  // Release the observers and timers when unmounting the component
+  useEffect(() => {
+    return () => {
+      // --- Stop waiting for the end of scrolling
+      clearTimeout(scrollIdleTimer.current);
+      scrolling.current = false;
+
+      // --- Stop observing the items
+      itemObserver.current?.disconnect();
+      itemObserver.current = undefined;
+      observedItems.current.clear();
+      cancelAnimationFrame(observedHeightsFrame.current);
+      observedHeightsFrame.current = -1;
+
+      // --- Cancel the search in progress
+      searchToken.current++;
+
+      // --- Stop retrying the failed data pages
+      clearTimeout(dataRetryTimer.current);
+
+      // --- Cancel the pending viewport announcement
+      clearTimeout(viewportAnnouncementTimer.current);
+
+      // --- Stop dragging an item
+      if (drag.current) {
+        stopDrag(drag.current);
+      }
+    };
+  }, []);
+
   // --------------------------------------------------------------------------
   // Whenever the number of items changes, initialize item heights
 
   useLayoutEffect(() => {
-    // --- Sets up the initial heights
+    // --- Items inserted or removed incrementally keep their heights and
+    // --- their group headers
+    if (itemsCount === incrementalCount.current) {
+      incrementalCount.current = -1;
+      return;
+    }
+    incrementalCount.current = -1;
+
+    // --- Collect the group headers again at the next use
+    groupHeaders.current = null;
+
+    // --- Drop the selected items that are not in the list anymore
+    selection.current = limitSelection(selection.current, itemsCount);
+
+    // --- Render the items again with the new set size
+    lastViewport.current = { startIndex: -1, endIndex: -1 };
+    itemCache.current.clear();
+
+    // --- Sets up the initial heights; the rendered items are measured again
     setInitialHeights();
-    measuring.current = heightMode === "variable" || heightMode === "first";
+    forgetObservedItems();
+    measuring.current = calculationQueue.current.length > 0;
 
     if (!measuring.current) {
       // --- Notify the host about the viewport change
       const vp = getViewPort();
-      onViewPortChanged(vp.startIndex, vp.endIndex);
+      onViewPortChanged?.(vp.startIndex, vp.endIndex);
     }
 
     // --- Navigate to the specified initial position
     const initPosition = obtainInitPos?.();
-    if (initPosition !== null && initPosition !== undefined) {
-      setRequestedPos(initPosition < 0 ? MAX_LIST_PIXELS : initPosition);
+    if (typeof initPosition === "number") {
+      requestPosition(initPosition < 0 ? BOTTOM_POSITION : initPosition);
+    } else if (initPosition) {
+      restoreScrollState(initPosition);
     }
 
+    // --- Stay at the last item when following the tail
+    pinToTail();
+
     // --- Process the first batch of elements to measure their size
     processHeightMeasureBatchAfterTick();
   }, [itemsCount]);
 
+  // --------------------------------------------------------------------------
+  // Find the matches again whenever the number of items changes
+  useLayoutEffect(() => {
+    if (findOpen) {
+      updateFindMatches(findText, false);
+    }
+  }, [itemsCount]);
+
+  // --------------------------------------------------------------------------
+  // Drop the loaded pages whenever the data source changes
+  useLayoutEffect(() => {
+    resetDataPages();
+    pageCache.current = createPageCache(
+      dataSource?.maxCachedPages ?? DATA_CACHED_PAGES
+    );
+    forceRefresh();
+  }, [dataSource]);
+
+  // --------------------------------------------------------------------------
+  // Start or stop following the tail when the host asks so
+  useEffect(() => {
+    changeFollowing(followTail);
+    pinToTail();
+  }, [followTail]);
+
   // --------------------------------------------------------------------------
   // Whenever elements are rendered for measure, process them
   useLayoutEffect(() => {
     applyMeasuredItemDimensions();
 
+    // --- The measured heights move the tail
+    const pinned = pinToTail();
+
     // --- Is there a next batch?
-    if (calculationQueue.current.length > 0) {
+    if (calculationQueue.current.length > 0 || batchQueue.current.length > 0) {
       // --- Process the nex batch of elements
       processHeightMeasureBatch();
     } else {
@@ -321,10 +777,16 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
       // --- We're not measuring anymore
       measuring.current = false;
 
-      // --- Let's reposition, if asked so
-      if (positionToIndex.current >= 0) {
-        scrollToItemByIndex(positionToIndex.current);
+      // --- Keep the pinned item in its place (reposition, restore the
+      // --- scroll state, or keep the anchor of inserted items)
+      if (pinnedAnchor.current && !pinned) {
+        scrollToAnchor(pinnedAnchor.current);
       }
+      pinnedAnchor.current = null;
+
+      // --- The position requested while measuring may be the same as the
+      // --- current request, which would not trigger the position effect
+      updateRequestedPosition();
     }
   }, [elementsToMeasure]);
 
@@ -334,6 +796,12 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
     renderVisibleElements();
   }, [visibleElements]);
 
+  // --------------------------------------------------------------------------
+  // Observe the size of the rendered items
+  useLayoutEffect(() => {
+    observeVisibleItems();
+  }, [visibleElements, autoMeasure, heightMode]);
+
   // --------------------------------------------------------------------------
   // Whenever there is a new batch to remeasure, initiate
   useLayoutEffect(() => {
@@ -362,19 +830,21 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
     callback: async () => {
       const width = componentHost.current.offsetWidth;
 
-      // --- Check if we need to remeasure items
+      // --- Check if we need to remeasure items (observed items remeasure
+      // --- themselves)
       if (
         lastContainerWidth.current >= 0 &&
         lastContainerWidth.current !== width &&
-        horizontalRemeasure
+        horizontalRemeasure &&
+        !measuresRenderedItems()
       ) {
         // --- Let's wait while horizontal position settles down
         settleCounter.current++;
         await new Promise((r) => setTimeout(r, horizontalSettleTime));
         if (settleCounter.current === 1) {
           // --- Let's keep the top item's position, if required so
-          if (reposition) {
-            positionToIndex.current = getViewPort().startIndex;
+          if (reposition && !pinnedAnchor.current) {
+            pinnedAnchor.current = getScrollAnchor();
           }
 
           // --- Let's remeasure the items because of changed horizontal size
@@ -389,6 +859,7 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
       lastContainerWidth.current = width;
 
       // --- Update the UI according to changes
+      pinToTail();
       updateScrollbarDimensions();
       updateRequestedPosition();
       renderVisibleElements();
@@ -404,6 +875,16 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
       <div
         tabIndex={focusable ? 0 : -1}
         ref={componentHost}
+        role={role}
+        aria-label={ariaLabel}
+        aria-labelledby={ariaLabelledBy}
+        aria-multiselectable={
+          selectionMode === "multiple" || selectionMode === "extended"
+            ? true
+            : undefined
+        }
+        aria-rowcount={role === "grid" ? itemsCount : undefined}
+        aria-activedescendant={getActiveDescendant()}
         style={{
           ...style,
           overflow: "hidden",
@@ -411,7 +892,7 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
           height: "100%",
         }}
         onWheel={(e) =>
-          setRequestedPos(
+          scrollByUser(
             Math.max(
               0,
               scrollPosition.current +
@@ -420,17 +901,24 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
           )
         }
         onKeyDown={(e) => {
+          if (getItemText && handleTextKeys(e)) {
+            return;
+          }
           if (handleKeys) {
             handleKeys(e);
+          } else if (selectionMode !== "none") {
+            handleSelectionKeys(e);
           } else {
             const newPos = calculateScrollPositionByKey(
               componentHost.current,
               e.key,
               e.shiftKey,
               itemHeight,
-              true
+              true,
+              scrollPosition.current,
+              listHeight.current
             );
-            setRequestedPos(newPos);
+            scrollByUser(newPos);
           }
         }}
         onFocus={() => onFocus?.()}
@@ -441,7 +929,8 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
         }
         <div
           className="inner"
-          style={{ height: `${totalHeight}px` }}
+          style={{ height: `${Math.min(totalHeight, MAX_LIST_PIXELS)}px` }}
+          onMouseDown={(e) => handleItemClick(e)}
           onMouseEnter={() => displayScrollbars(true)}
           onMouseLeave={() => displayScrollbars(false)}
         >
@@ -450,9 +939,43 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
           }
           {visibleElements &&
             visibleElements.map((ve) => (
-              <React.Fragment key={ve.index}>{ve.item}</React.Fragment>
+              <React.Fragment key={ve.key}>{ve.item}</React.Fragment>
             ))}
 
+          {
+            // --- The drop indicator while dragging an item
+          }
+          {dropIndex >= 0 && (
+            <div
+              style={{
+                position: "absolute",
+                top: Math.max(
+                  0,
+                  heights.current.getTop(dropIndex) - getScrollOffset() - 1
+                ),
+                left: 0,
+                width: "100%",
+                height: 2,
+                background: "#0078d4",
+                zIndex: 2,
+                pointerEvents: "none",
+              }}
+            />
+          )}
+
+          {
+            // --- The header of the current group sticks to the top
+          }
+          {stickyHeader &&
+            React.cloneElement(
+              renderListItem(
+                stickyHeader.index,
+                { ...explicitItemType, top: stickyHeader.top, zIndex: 1 },
+                { ...getItemState(stickyHeader.index), sticky: true }
+              ),
+              { "aria-hidden": true }
+            )}
+
           {
             // --- This element is a container we push far to the bottom of the
             // --- virtual list. We render the items within this container
@@ -460,6 +983,7 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
           }
           <div
             ref={sizerHost}
+            aria-hidden={true}
             style={{
               display: "block",
               position: "absolute",
@@ -483,8 +1007,9 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
       <FloatingScrollbar
         direction="vertical"
         barSize={16}
+        stepSize={itemHeight}
         registerApi={(api) => (verticalApi.current = api)}
-        moved={(delta) => setRequestedPos(delta)}
+        moved={(delta) => scrollByUser(delta)}
         forceShow={showScrollbars}
       />
       {
@@ -494,9 +1019,22 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
         direction="horizontal"
         barSize={10}
         registerApi={(api) => (horizontalApi.current = api)}
-        moved={(delta) => setRequestedPos(delta)}
+        moved={(delta) => scrollHorizontally(delta)}
         forceShow={showScrollbars}
       />
+      {
+        // --- Find bar
+      }
+      {findOpen && renderFindBar()}
+      {
+        // --- Live region to announce the viewport, the focus, and the
+        // --- selection
+      }
+      {(announceViewport || announceSelection) && (
+        <div aria-live="polite" aria-atomic={true} style={visuallyHiddenStyle}>
+          {announcement}
+        </div>
+      )}
     </>
   );
 
@@ -507,37 +1045,15 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
    * Sets the initial heights of items after mounting the component
    */
   function setInitialHeights(): void {
-    const initial: HeightInfo[] = [];
-    initial.length = itemsCount;
-
     // --- We put dynamic items into a calculation queue so that later we can
     // --- measure their dimensions
     const calcQueue: number[] = [];
-
-    // --- Start from the top, and iterate through the items
-    let top = 0;
     if (heightMode === "first") {
       calcQueue[0] = 0;
-    }
-    for (let i = 0; i < itemsCount; i++) {
-      initial[i] = {
-        top,
-        height: itemHeight,
-      };
-      top += itemHeight;
-
-      // --- Put the dynamic item into the calculation queue
-      if (heightMode === "variable") {
+    } else if (heightMode === "variable" && !autoMeasure) {
+      for (let i = 0; i < itemsCount; i++) {
         calcQueue[i] = i;
       }
-
-      // --- Do not allow arbitrarily long lists
-      if (top > MAX_LIST_PIXELS) {
-        throw new Error(
-          `The total height of the virtualized list cannot be greater than ${MAX_LIST_PIXELS}. ` +
-            `Now, the list has ${itemsCount} items and item #${i} violates the maximum total height.`
-        );
-      }
     }
 
     // --- Prepare calculations
@@ -545,8 +1061,11 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
     batchQueue.current = [];
 
     // --- Done.
-    heights.current = initial;
-    setTotalHeight(top);
+    heights.current = createHeightIndex(
+      itemsCount,
+      heightMode === "estimated" && estimateHeight ? estimateHeight : itemHeight
+    );
+    updateTotalHeight(heights.current.getTotalHeight());
   }
 
   /**
@@ -570,7 +1089,7 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
     const batchItems = Math.min(queue.length, calcBatchSize);
 
     const newElementsToSize = new Map<number, JSX.Element>();
-    let firstIndex = -1;
+    const batchIndexes: number[] = [];
     for (let i = 0; i < batchItems; i++) {
       if (cancelCalculation.current) {
         // --- Abort calculation when requested so
@@ -578,13 +1097,15 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
         return;
       }
       const itemIndex = queue.shift();
-      if (firstIndex < 0) {
-        firstIndex = itemIndex;
-      }
-      var item = renderItem(itemIndex, explicitItemType);
+      batchIndexes.push(itemIndex);
+      var item = renderListItem(
+        itemIndex,
+        explicitItemType,
+        getItemState(itemIndex)
+      );
       newElementsToSize.set(itemIndex, item);
     }
-    firstElementIndex.current = firstIndex;
+    measuredIndexes.current = batchIndexes;
     setElementsToSize(newElementsToSize);
   }
 
@@ -601,61 +1122,65 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
   function applyMeasuredItemDimensions(): void {
     if (elementsToMeasure && elementsToMeasure.size > 0) {
       // --- Iterate through the sizes of elements and store them
-      const heightInfo = heights.current;
+      const heightIndex = heights.current;
 
       if (heightMode === "first") {
         // --- All items will have the same as as the first
         const measuredHeight = (
           sizerHost.current.childNodes[0] as HTMLDivElement
         ).offsetHeight;
-        let top = 0;
-        for (let i = 0; i < itemsCount; i++) {
-          // --- Get the next element
-          heightInfo[i] = {
-            top: top,
-            height: measuredHeight,
-          };
-          top += measuredHeight;
-        }
+        heightIndex.fill(measuredHeight);
       } else {
-        // --- All items have their individual size
-        let lastHeightInfo: HeightInfo | null = null;
-        let lastIndex = sizerHost.current.childNodes.length;
-        const firstIndex = firstElementIndex.current;
-        let top = firstIndex
-          ? heightInfo[firstIndex - 1].top + heightInfo[firstIndex - 1].height
-          : 0;
+        // --- All items have their individual size. The positions of the
+        // --- following items are updated by the height index. Items
+        // --- removed while measuring have a negative index.
+        const lastIndex = sizerHost.current.childNodes.length;
         for (let i = 0; i < lastIndex; i++) {
-          // --- Get the next element
           const element = sizerHost.current.childNodes[i] as HTMLDivElement;
-          const itemIndex = i + firstElementIndex.current;
-          const measuredHeight = element.offsetHeight;
-
-          // --- Read the element size and calculate position
-          lastHeightInfo = heightInfo[itemIndex] = {
-            top: top,
-            height: measuredHeight,
-          };
-          top += measuredHeight;
-        }
-
-        // --- Now, shift the remaining items
-        if (lastHeightInfo) {
-          let nextTop = lastHeightInfo.top + lastHeightInfo.height;
-          for (
-            let i = lastIndex + firstElementIndex.current;
-            i < heightInfo.length;
-            i++
-          ) {
-            heightInfo[i].top = nextTop;
-            nextTop += heightInfo[i].height;
+          const itemIndex = measuredIndexes.current[i] ?? -1;
+          if (itemIndex >= 0) {
+            heightIndex.setHeight(itemIndex, element.offsetHeight);
           }
-
-          // --- Set the new height
-          setTotalHeight(nextTop);
         }
       }
+      updateTotalHeight(heightIndex.getTotalHeight());
+    }
+  }
+
+  /**
+   * Sets the total height of the list in the virtual coordinate space
+   * @param height The new total height
+   */
+  function updateTotalHeight(height: number): void {
+    listHeight.current = height;
+    setTotalHeight(height);
+  }
+
+  /**
+   * Gets the DOM scroll position that belongs to a virtual position. When
+   * the list is taller than the DOM scroll range, the virtual coordinate
+   * space is mapped proportionally to the DOM scroll range.
+   * @param virtualPos Position in the virtual coordinate space
+   */
+  function toDomPosition(virtualPos: number): number {
+    const viewHeight = componentHost.current?.offsetHeight ?? 0;
+    const virtualRange = listHeight.current - viewHeight;
+    const domRange = Math.min(listHeight.current, MAX_LIST_PIXELS) - viewHeight;
+    if (virtualRange <= domRange || virtualRange <= 0) {
+      return virtualPos;
+    }
+    return (virtualPos * Math.max(0, domRange)) / virtualRange;
+  }
+
+  /**
+   * Gets the distance between the virtual and the DOM scroll positions.
+   * Items are rendered shifted by this value.
+   */
+  function getScrollOffset(): number {
+    if (listHeight.current <= MAX_LIST_PIXELS || !componentHost.current) {
+      return 0;
     }
+    return scrollPosition.current - componentHost.current.scrollTop;
   }
 
   /**
@@ -672,8 +1197,8 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
       hostTop: host.offsetTop,
       hostSize: host.offsetHeight,
       hostCrossSize: host.offsetWidth,
-      hostScrollPos: host.scrollTop,
-      hostScrollSize: host.scrollHeight,
+      hostScrollPos: scrollPosition.current,
+      hostScrollSize: listHeight.current,
     });
     horizontalApi.current?.signHostDimension({
       hostLeft: host.offsetLeft,
@@ -685,18 +1210,106 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
     });
   }
 
+  /**
+   * Scrolls the list horizontally
+   * @param position The new horizontal scroll position
+   */
+  function scrollHorizontally(position: number): void {
+    componentHost.current.scrollLeft = position;
+    updateScrollbarDimensions();
+  }
+
+  /**
+   * Scrolls to the position the user asked for
+   * @param position The requested position
+   */
+  function scrollByUser(position: number): void {
+    userScrolled.current = true;
+    startScrolling();
+    requestPosition(position);
+  }
+
+  /**
+   * Signs that the user is scrolling, and schedules the end of scrolling
+   */
+  function startScrolling(): void {
+    clearTimeout(scrollIdleTimer.current);
+    scrollIdleTimer.current = setTimeout(() => endScrolling(), scrollIdleDelay);
+    if (!scrolling.current) {
+      scrolling.current = true;
+      onScrollStart?.();
+      refreshVisibleItems();
+    }
+  }
+
+  /**
+   * Signs that scrolling has ended and renders the items again
+   */
+  function endScrolling(): void {
+    if (scrolling.current && mounted.current) {
+      scrolling.current = false;
+      onScrollEnd?.();
+      refreshVisibleItems();
+    }
+  }
+
+  /**
+   * Scrolls to the last item if the list follows the tail
+   * @returns True, if the list follows the tail
+   */
+  function pinToTail(): boolean {
+    if (following.current) {
+      requestPosition(BOTTOM_POSITION);
+    }
+    return following.current;
+  }
+
+  /**
+   * Starts or stops following the tail, and notifies the host
+   * @param value Indicates if the list should follow the tail
+   */
+  function changeFollowing(value: boolean): void {
+    if (following.current !== value) {
+      following.current = value;
+      onFollowTailChanged?.(value);
+    }
+  }
+
   /**
    * Update the scrollbar's position to the requested one
    */
   function updateRequestedPosition(): void {
-    if (requestedPos >= 0 && (!deferPositionRefresh || !measuring.current)) {
-      componentHost.current.scrollTop = requestedPos;
-      scrollPosition.current = componentHost.current.scrollTop;
-      onScrolled?.(scrollPosition.current);
+    const position = pendingPos.current;
+    if (position >= 0 && (!deferPositionRefresh || !measuring.current)) {
+      const host = componentHost.current;
+      const maxPosition = Math.max(0, listHeight.current - host.offsetHeight);
+      scrollPosition.current = Math.min(position, maxPosition);
+      host.scrollTop = toDomPosition(scrollPosition.current);
+
+      // --- Scrolling away from the bottom pauses following the tail,
+      // --- scrolling back resumes it
+      if (userScrolled.current && followTail) {
+        changeFollowing(scrollPosition.current >= maxPosition - 1);
+      }
+      userScrolled.current = false;
+      onScrolled?.(host.scrollTop);
+      onVirtualScrolled?.(scrollPosition.current, listHeight.current);
+      pendingPos.current = -1;
       setRequestedPos(-1);
     }
   }
 
+  /**
+   * Requests scrolling to the specified position. The position is applied
+   * after rendering, or when measuring completes, if the list defers
+   * position changes while measuring.
+   * @param position The requested position
+   */
+  function requestPosition(position: number): void {
+    pendingPos.current = position;
+    setRequestedPos(position);
+  }
+
   /**
    * Display the visible elements
    * @returns
@@ -705,50 +1318,1137 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
     if (deferPositionRefresh && measuring.current) {
       return;
     }
+    updateStickyHeader();
 
     const view = getViewPort();
     if (view.startIndex < 0 || view.endIndex < 0) {
       // --- The viewport is empty
       return;
     }
+    requestDataPages(view);
 
     // --- We have to avoid continuous React updates, so we
     // --- carry out rendering only if forced, or the viewport
-    // --- changes
+    // --- (or the offset of a scaled list) changes
+    const scrollOffset = getScrollOffset();
     if (
       !force &&
       lastViewport.current.startIndex === view.startIndex &&
-      lastViewport.current.endIndex === view.endIndex
+      lastViewport.current.endIndex === view.endIndex &&
+      lastScrollOffset.current === scrollOffset
     ) {
       // --- The viewport has not changed
       return;
     }
     lastViewport.current = view;
-
-    // --- Render the elements in the viewport
+    lastScrollOffset.current = scrollOffset;
+
+    // --- Render the elements in the viewport and in the overscan
+    const first = Math.max(0, view.startIndex - overscan);
+    const last = Math.min(
+      heights.current.getCount() - 1,
+      view.endIndex + overscan
+    );
+    const keys = recycleItems ? getRecycledKeys(first, last) : undefined;
     const visible: VisibleItem[] = [];
-    for (let i = view.startIndex; i <= view.endIndex; i++) {
+    for (let i = first; i <= last; i++) {
       visible.push({
         index: i,
-        item: renderItem(i, {
-          ...explicitItemType,
-          top: heights.current[i].top,
-        }),
+        key: keys?.get(i) ?? i,
+        item: renderVisibleItem(i, scrollOffset),
       });
     }
+
+    // --- Keep only the rendered items in the cache
+    itemCache.current.forEach((_, index) => {
+      if (index < first || index > last) {
+        itemCache.current.delete(index);
+      }
+    });
     setVisibleElements(visible);
 
-    // --- Notify the host about the viewport change
+    // --- Notify the host (and screen readers) about the viewport change
     onViewPortChanged?.(view.startIndex, view.endIndex);
+    announceViewportChange(view);
   }
 
   /**
-   * Displays or hides the scrollbars
-   * @param show Indicates if scrollbars should be displayed
+   * Announces the viewport to screen readers when it has not changed for a
+   * while, so that scrolling does not flood them with announcements
+   * @param view The current viewport
    */
-  function displayScrollbars(show: boolean): void {
-    verticalApi.current?.display(show);
-    horizontalApi.current?.display(show);
+  function announceViewportChange(view: Viewport): void {
+    if (!announceViewport) {
+      return;
+    }
+    const text = getViewportAnnouncement(
+      view.startIndex,
+      view.endIndex,
+      itemsCount
+    );
+
+    // --- Moving the focus scrolls the list, too, but the focused item has
+    // --- been announced instead of the viewport
+    const skip = focusAnnounced.current;
+    focusAnnounced.current = false;
+    if (text === announcedViewport.current && !skip) {
+      // --- The viewport has been announced or is about to be announced
+      return;
+    }
+    clearTimeout(viewportAnnouncementTimer.current);
+    announcedViewport.current = text;
+    if (!skip) {
+      viewportAnnouncementTimer.current = setTimeout(() => {
+        if (mounted.current) {
+          setAnnouncement(text);
+        }
+      }, VIEWPORT_ANNOUNCE_DELAY);
+    }
+  }
+
+  /**
+   * Renders an item of the viewport; reuses the item rendered earlier if
+   * its version, position, and state have not changed
+   * @param index Item index
+   * @param scrollOffset The offset of the rendered items
+   */
+  function renderVisibleItem(index: number, scrollOffset: number): JSX.Element {
+    const top = heights.current.getTop(index) - scrollOffset;
+    const state = getItemState(index);
+    const version = getItemVersion?.(index);
+    const cached = itemCache.current.get(index);
+    if (
+      getItemVersion &&
+      cached &&
+      cached.top === top &&
+      cached.version === version &&
+      isSameItemState(cached.state, state)
+    ) {
+      return cached.item;
+    }
+    const item = withItemAria(
+      renderListItem(index, { ...explicitItemType, top }, state),
+      index
+    );
+    onItemRendered?.(index);
+    if (getItemVersion) {
+      itemCache.current.set(index, { top, version, state, item });
+    }
+    return item;
+  }
+
+  /**
+   * Assigns the containers of the pool to the rendered items. Items that
+   * remain rendered keep their container, new items get the released ones.
+   * @param first The first rendered item
+   * @param last The last rendered item
+   * @returns The container keys by item index
+   */
+  function getRecycledKeys(first: number, last: number): Map<number, number> {
+    const keys = new Map<number, number>();
+    const released: number[] = [];
+    let nextKey = 0;
+    recycledKeys.current.forEach((key, index) => {
+      if (index >= first && index <= last) {
+        keys.set(index, key);
+      } else {
+        released.push(key);
+      }
+      nextKey = Math.max(nextKey, key + 1);
+    });
+    for (let i = first; i <= last; i++) {
+      if (!keys.has(i)) {
+        keys.set(i, released.length > 0 ? released.pop() : nextKey++);
+      }
+    }
+    recycledKeys.current = keys;
+    return keys;
+  }
+
+  /**
+   * Gets the ID of a particular item
+   * @param index Item index
+   */
+  function getItemId(index: number): string {
+    return `${idPrefix ?? listId}-item-${index}`;
+  }
+
+  /**
+   * Adds the accessibility attributes to a rendered item. The attributes
+   * set by the item renderer are kept.
+   * @param item The rendered item
+   * @param index Item index
+   */
+  function withItemAria(item: JSX.Element, index: number): JSX.Element {
+    const selected =
+      selectionMode !== "none"
+        ? isSelected(selection.current, index)
+        : undefined;
+    let attributes: Record<string, unknown>;
+    switch (role) {
+      case "grid":
+        attributes = {
+          role: "row",
+          "aria-rowindex": index + 1,
+          "aria-selected": selected,
+        };
+        break;
+      case "tree":
+        attributes = {
+          role: "treeitem",
+          "aria-level": 1,
+          "aria-posinset": index + 1,
+          "aria-setsize": itemsCount,
+          "aria-selected": selected,
+        };
+        break;
+      default:
+        attributes = {
+          role: "option",
+          "aria-posinset": index + 1,
+          "aria-setsize": itemsCount,
+          "aria-selected": !!selected,
+        };
+        break;
+    }
+    const props: Record<string, unknown> = {
+      id: getItemId(index),
+      "data-index": index,
+    };
+    for (const key of Object.keys(attributes)) {
+      if (item.props[key] === undefined) {
+        props[key] = attributes[key];
+      }
+    }
+
+    // --- A grid row must contain cells
+    if (role === "grid" && item.props.role === undefined) {
+      return React.cloneElement(
+        item,
+        props,
+        <div role="gridcell" style={gridCellStyle}>
+          {item.props.children}
+        </div>
+      );
+    }
+    return React.cloneElement(item, props);
+  }
+
+  /**
+   * Gets the ID of the focused item, provided it is rendered
+   */
+  function getActiveDescendant(): string | undefined {
+    const focused = selection.current.focusedIndex;
+    const view = lastViewport.current;
+    return focused >= 0 &&
+      focused >= view.startIndex &&
+      focused <= view.endIndex
+      ? getItemId(focused)
+      : undefined;
+  }
+
+  /**
+   * Renders an item; renders a placeholder while the item's data is being
+   * loaded from the data source
+   * @param index Item index
+   * @param itemStyle Style of the item
+   * @param state Item state
+   */
+  function renderListItem(
+    index: number,
+    itemStyle: CSSProperties,
+    state: ItemRenderState
+  ): JSX.Element {
+    if (!dataSource) {
+      return renderItem(index, itemStyle, state);
+    }
+    const pageSize = dataSource.pageSize ?? DATA_PAGE_SIZE;
+    const page = pageCache.current.get(Math.floor(index / pageSize));
+    if (page && index % pageSize < page.length) {
+      return renderItem(index, itemStyle, {
+        ...state,
+        data: page[index % pageSize],
+      });
+    }
+    return renderPlaceholder ? (
+      renderPlaceholder(index, itemStyle)
+    ) : (
+      <div style={{ ...itemStyle, height: itemHeight }} />
+    );
+  }
+
+  /**
+   * Requests the pages of the viewport (and its overscan) that are not
+   * loaded yet
+   * @param view The current viewport
+   */
+  function requestDataPages(view: Viewport): void {
+    if (!dataSource) {
+      return;
+    }
+    const pageSize = dataSource.pageSize ?? DATA_PAGE_SIZE;
+    const count = heights.current.getCount();
+    const start = Math.max(0, view.startIndex - dataOverscan);
+    const end = Math.min(count - 1, view.endIndex + dataOverscan);
+
+    // --- Keep at least the requested pages in the cache
+    const firstPage = Math.floor(start / pageSize);
+    const lastPage = Math.floor(end / pageSize);
+    pageCache.current.resize(
+      Math.max(
+        dataSource.maxCachedPages ?? DATA_CACHED_PAGES,
+        lastPage - firstPage + 1
+      )
+    );
+    const now = Date.now();
+    let nextRetry = Infinity;
+    for (let page = firstPage; page <= lastPage; page++) {
+      if (pageCache.current.has(page) || pendingPages.current.has(page)) {
+        continue;
+      }
+
+      // --- Wait before requesting a failed page again
+      const failed = failedPages.current.get(page);
+      if (failed && failed.retryAt > now) {
+        nextRetry = Math.min(nextRetry, failed.retryAt);
+        continue;
+      }
+      const pageStart = page * pageSize;
+      const pageEnd = Math.min(count - 1, pageStart + pageSize - 1);
+      const request = ++lastPageRequest.current;
+      pendingPages.current.set(page, request);
+      dataSource.requestRange(pageStart, pageEnd).then(
+        (items) => {
+          // --- Ignore the pages of a former data source, or the pages
+          // --- moved by inserting or removing items
+          if (pendingPages.current.get(page) !== request) {
+            return;
+          }
+          pendingPages.current.delete(page);
+          failedPages.current.delete(page);
+          pageCache.current.set(page, items);
+          refreshLoadedItems(pageStart, pageEnd);
+        },
+        () => {
+          if (pendingPages.current.get(page) !== request) {
+            return;
+          }
+
+          // --- Request the page again after a delay that grows with each
+          // --- failure
+          pendingPages.current.delete(page);
+          const failures = (failedPages.current.get(page)?.failures ?? 0) + 1;
+          failedPages.current.set(page, {
+            failures,
+            retryAt:
+              Date.now() +
+              Math.min(
+                DATA_MAX_RETRY_DELAY,
+                DATA_RETRY_DELAY * 2 ** (failures - 1)
+              ),
+          });
+          if (mounted.current) {
+            setRefreshTrigger((trigger) => trigger + 1);
+          }
+        }
+      );
+    }
+
+    // --- Render again when the first failed page can be requested again
+    clearTimeout(dataRetryTimer.current);
+    if (nextRetry < Infinity) {
+      dataRetryTimer.current = setTimeout(
+        () => setRefreshTrigger((trigger) => trigger + 1),
+        nextRetry - now
+      );
+    }
+  }
+
+  /**
+   * Renders (and remeasures) the items of a loaded page
+   * @param start The first loaded item
+   * @param end The last loaded item
+   */
+  function refreshLoadedItems(start: number, end: number): void {
+    if (heightMode === "variable" && !autoMeasure) {
+      remeasure(start, end);
+      return;
+    }
+    const view = lastViewport.current;
+    if (
+      view.startIndex - overscan <= end &&
+      view.endIndex + overscan >= start
+    ) {
+      // --- Render only the items of the page again
+      itemCache.current.forEach((_, index) => {
+        if (index >= start && index <= end) {
+          itemCache.current.delete(index);
+        }
+      });
+      refreshVisibleItems();
+    }
+  }
+
+  /**
+   * Drops the loaded and the pending pages of the data source
+   */
+  function resetDataPages(): void {
+    pendingPages.current.clear();
+    failedPages.current.clear();
+    pageCache.current.clear();
+  }
+
+  /**
+   * Moves the loaded pages after inserting or removing items. The page the
+   * change touches and the pending pages after it are requested again.
+   * @param index The index of the first inserted or removed item
+   * @param delta The number of inserted (positive) or removed (negative) items
+   */
+  function shiftDataPages(index: number, delta: number): void {
+    if (!dataSource) {
+      return;
+    }
+    const pageSize = dataSource.pageSize ?? DATA_PAGE_SIZE;
+    pageCache.current.shift(index, delta, heights.current.getCount(), pageSize);
+    pendingPages.current.forEach((_, page) => {
+      if ((page + 1) * pageSize > index) {
+        pendingPages.current.delete(page);
+      }
+    });
+    failedPages.current.forEach((_, page) => {
+      if ((page + 1) * pageSize > index) {
+        failedPages.current.delete(page);
+      }
+    });
+  }
+
+  /**
+   * Gets the state of the specified item to pass to the item renderer
+   * @param index Item index
+   */
+  function getItemState(index: number): ItemRenderState {
+    return {
+      selected: isSelected(selection.current, index),
+      focused: selection.current.focusedIndex === index,
+      sticky: false,
+      matched: findMatches.current.indexes.length > 0 && isMatch(index),
+      currentMatch:
+        findMatches.current.indexes[findMatches.current.current] === index,
+      isScrolling: scrolling.current,
+    };
+  }
+
+  /**
+   * Handles type-ahead and the find bar shortcut
+   * @returns True, if the key has been handled
+   */
+  function handleTextKeys(e: React.KeyboardEvent): boolean {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "f") {
+      setFindOpen(true);
+      e.preventDefault();
+      return true;
+    }
+    if (
+      e.key.length !== 1 ||
+      e.ctrlKey ||
+      e.metaKey ||
+      e.altKey ||
+      (e.key === " " && typeAheadPrefix.current === "")
+    ) {
+      return false;
+    }
+
+    // --- Extend the prefix, and reset it after a while
+    typeAheadPrefix.current += e.key.toLowerCase();
+    clearTimeout(typeAheadTimer.current);
+    typeAheadTimer.current = setTimeout(
+      () => (typeAheadPrefix.current = ""),
+      typeAheadDelay
+    );
+
+    // --- Look for the next item starting with the prefix; a longer prefix
+    // --- may match the current item, too
+    const prefix = typeAheadPrefix.current;
+    const current = getCurrentIndex();
+    const start = prefix.length > 1 ? Math.max(0, current) : current + 1;
+    searchItems(start, (index) => {
+      if (!getItemText(index).toLowerCase().startsWith(prefix)) {
+        return false;
+      }
+      if (selectionMode === "none") {
+        ensureVisible(index, "center");
+      } else {
+        changeSelection(index, "select");
+      }
+      return true;
+    });
+    e.preventDefault();
+    return true;
+  }
+
+  /**
+   * Visits the items in slices, yielding to the browser between them, so
+   * that searching a long list does not block the UI. Starting a new search
+   * cancels the one in progress.
+   * @param start Index of the first item to visit; the search wraps around
+   * @param visit Checks an item; returns true to stop the search
+   * @param sliceDone Called after each slice with a flag that tells if the
+   * search has been completed
+   */
+  function searchItems(
+    start: number,
+    visit: (index: number) => boolean,
+    sliceDone?: (completed: boolean) => void
+  ): void {
+    const token = ++searchToken.current;
+    const count = heights.current.getCount();
+    let visited = 0;
+    const searchSlice = () => {
+      if (token !== searchToken.current || !mounted.current) {
+        return;
+      }
+      const sliceEnd = Math.min(count, visited + SEARCH_SLICE_SIZE);
+      for (; visited < sliceEnd; visited++) {
+        if (visit((start + visited) % count)) {
+          sliceDone?.(true);
+          return;
+        }
+      }
+      const completed = visited >= count;
+      sliceDone?.(completed);
+      if (!completed) {
+        setTimeout(searchSlice, 0);
+      }
+    };
+    searchSlice();
+  }
+
+  /**
+   * Gets the index of the focused item; the first visible one, if there is
+   * no focused item
+   */
+  function getCurrentIndex(): number {
+    const focused = selection.current.focusedIndex;
+    return focused >= 0 ? focused : getViewPort().startIndex;
+  }
+
+  /**
+   * Renders the find bar
+   */
+  function renderFindBar(): JSX.Element {
+    const host = componentHost.current;
+    const matches = findMatches.current;
+    const buttonStyle: CSSProperties = {
+      flexShrink: 0,
+      width: 22,
+      textAlign: "center",
+      cursor: "pointer",
+    };
+    return (
+      <div
+        style={{
+          position: "absolute",
+          top: (host?.offsetTop ?? 0) + 4,
+          left:
+            (host?.offsetLeft ?? 0) +
+            Math.max(0, (host?.offsetWidth ?? 0) - FIND_BAR_WIDTH - 20),
+          width: FIND_BAR_WIDTH,
+          display: "flex",
+          alignItems: "center",
+          padding: 4,
+          background: "#f0f0f0",
+          boxShadow: "0 2px 8px rgba(0, 0, 0, 0.3)",
+          zIndex: 10,
+        }}
+      >
+        <input
+          autoFocus={true}
+          value={findText}
+          style={{ flexGrow: 1, minWidth: 0 }}
+          onChange={(e) => updateFindMatches(e.target.value, true)}
+          onKeyDown={(e) => {
+            e.stopPropagation();
+            if (e.key === "Enter") {
+              stepFindMatch(e.shiftKey ? -1 : 1);
+              e.preventDefault();
+            } else if (e.key === "Escape") {
+              closeFind();
+              e.preventDefault();
+            }
+          }}
+        />
+        <span style={{ flexShrink: 0, margin: "0 6px", fontSize: "0.8em" }}>
+          {matches.indexes.length > 0
+            ? `${matches.current + 1} of ${matches.indexes.length}`
+            : "No results"}
+        </span>
+        <span
+          style={buttonStyle}
+          title="Previous match (Shift+Enter)"
+          onClick={() => stepFindMatch(-1)}
+        >
+          &#x2191;
+        </span>
+        <span
+          style={buttonStyle}
+          title="Next match (Enter)"
+          onClick={() => stepFindMatch(1)}
+        >
+          &#x2193;
+        </span>
+        <span
+          style={buttonStyle}
+          title="Close (Escape)"
+          onClick={() => closeFind()}
+        >
+          &#x2715;
+        </span>
+      </div>
+    );
+  }
+
+  /**
+   * Collects the items that match the find text. The matches are collected
+   * in slices; the highlights follow them as the search progresses.
+   * @param text Text to find
+   * @param navigate Indicates that the first match should be displayed
+   */
+  function updateFindMatches(text: string, navigate: boolean): void {
+    setFindText(text);
+    const matches: FindMatches = { indexes: [], current: -1 };
+    findMatches.current = matches;
+    const lowerText = text.toLowerCase();
+    if (!lowerText || !getItemText) {
+      searchToken.current++;
+      forceRefresh();
+      return;
+    }
+
+    // --- Start from the first match after the current item
+    const current = getCurrentIndex();
+    let shown = !navigate;
+    searchItems(
+      0,
+      (index) => {
+        if (getItemText(index).toLowerCase().includes(lowerText)) {
+          matches.indexes.push(index);
+          if (matches.current < 0 && index >= current) {
+            matches.current = matches.indexes.length - 1;
+          }
+        }
+        return false;
+      },
+      (completed) => {
+        if (completed && matches.current < 0 && matches.indexes.length > 0) {
+          matches.current = 0;
+        }
+        if (!shown && matches.current >= 0) {
+          shown = true;
+          showFindMatch();
+        } else {
+          forceRefresh();
+        }
+      }
+    );
+  }
+
+  /**
+   * Steps to the next (or previous) match
+   * @param delta Step direction
+   */
+  function stepFindMatch(delta: number): void {
+    const matches = findMatches.current;
+    const length = matches.indexes.length;
+    if (length > 0) {
+      matches.current = (matches.current + delta + length) % length;
+      showFindMatch();
+    }
+  }
+
+  /**
+   * Scrolls the current match into view
+   */
+  function showFindMatch(): void {
+    const matches = findMatches.current;
+    if (matches.current >= 0) {
+      ensureVisible(matches.indexes[matches.current], "center");
+    }
+    forceRefresh();
+  }
+
+  /**
+   * Closes the find bar and removes the highlights
+   */
+  function closeFind(): void {
+    setFindOpen(false);
+    setFindText("");
+    searchToken.current++;
+    findMatches.current = { indexes: [], current: -1 };
+    forceRefresh();
+    componentHost.current?.focus();
+  }
+
+  /**
+   * Tells if the specified item matches the find text
+   * @param index Item index
+   */
+  function isMatch(index: number): boolean {
+    const indexes = findMatches.current.indexes;
+    let low = 0;
+    let high = indexes.length - 1;
+    while (low <= high) {
+      const middle = Math.floor((low + high) / 2);
+      if (indexes[middle] === index) {
+        return true;
+      }
+      if (indexes[middle] < index) {
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Gets the indexes of the group header items in ascending order
+   */
+  function getGroupHeaders(): number[] {
+    if (!groupHeaders.current) {
+      const headers: number[] = [];
+      if (isGroupHeader) {
+        const count = heights.current.getCount();
+        for (let i = 0; i < count; i++) {
+          if (isGroupHeader(i)) {
+            headers.push(i);
+          }
+        }
+      }
+      groupHeaders.current = headers;
+    }
+    return groupHeaders.current;
+  }
+
+  /**
+   * Checks again which items are group headers, and renders the sticky
+   * header again
+   * @param start The first item to check; all items, if undefined
+   * @param end The last item to check
+   */
+  function refreshGroupHeaders(start?: number, end?: number): void {
+    if (start === undefined) {
+      groupHeaders.current = null;
+    } else {
+      updateGroupHeaders(start, end ?? start);
+    }
+    forceRefresh();
+  }
+
+  /**
+   * Checks again which items of the specified range are group headers,
+   * provided the group headers have been collected
+   * @param start The first item to check
+   * @param end The last item to check
+   */
+  function updateGroupHeaders(start: number, end: number): void {
+    const headers = groupHeaders.current;
+    if (!headers || !isGroupHeader) {
+      return;
+    }
+    const first = Math.max(0, start);
+    const last = Math.min(heights.current.getCount() - 1, end);
+    const inRange: number[] = [];
+    for (let i = first; i <= last; i++) {
+      if (isGroupHeader(i)) {
+        inRange.push(i);
+      }
+    }
+    groupHeaders.current = [
+      ...headers.filter((index) => index < first),
+      ...inRange,
+      ...headers.filter((index) => index > last),
+    ];
+  }
+
+  /**
+   * Shifts the group headers after inserting or removing items, and checks
+   * the inserted items
+   * @param index The index of the first inserted or removed item
+   * @param delta The number of inserted (positive) or removed (negative) items
+   */
+  function shiftGroupHeaders(index: number, delta: number): void {
+    const headers = groupHeaders.current;
+    if (!headers) {
+      return;
+    }
+    groupHeaders.current = headers
+      .filter(
+        (header) => delta > 0 || header < index || header >= index - delta
+      )
+      .map((header) => (header < index ? header : header + delta));
+    if (delta > 0) {
+      updateGroupHeaders(index, index + delta - 1);
+    }
+  }
+
+  /**
+   * Sticks the header of the current group to the top of the viewport. The
+   * next group's header pushes the sticky header up.
+   */
+  function updateStickyHeader(): void {
+    let newHeader: StickyHeader | null = null;
+    const headers = isGroupHeader ? getGroupHeaders() : [];
+    const startIndex = getViewPort().startIndex;
+    if (headers.length > 0 && startIndex >= 0) {
+      // --- Find the last header not after the first visible item
+      let low = 0;
+      let high = headers.length - 1;
+      let found = -1;
+      while (low <= high) {
+        const middle = Math.floor((low + high) / 2);
+        if (headers[middle] <= startIndex) {
+          found = middle;
+          low = middle + 1;
+        } else {
+          high = middle - 1;
+        }
+      }
+
+      // --- The header is sticky only when it has been scrolled away
+      const index = headers[found];
+      if (
+        found >= 0 &&
+        heights.current.getTop(index) < scrollPosition.current
+      ) {
+        const headerHeight = heights.current.getHeight(index);
+        const nextTop =
+          found + 1 < headers.length
+            ? heights.current.getTop(headers[found + 1])
+            : listHeight.current;
+        const offset = Math.min(
+          0,
+          nextTop - scrollPosition.current - headerHeight
+        );
+        newHeader = {
+          index,
+          offset,
+          height: headerHeight,
+          top: componentHost.current.scrollTop + offset,
+        };
+      }
+    }
+
+    // --- Avoid re-rendering when the header has not changed
+    const last = lastStickyHeader.current;
+    if (
+      newHeader?.index !== last?.index ||
+      newHeader?.top !== last?.top ||
+      newHeader?.height !== last?.height
+    ) {
+      lastStickyHeader.current = newHeader;
+      setStickyHeader(newHeader);
+    }
+  }
+
+  /**
+   * Selects the item under the mouse pointer
+   */
+  function handleItemClick(e: React.MouseEvent): void {
+    if ((selectionMode === "none" && !reorderable) || e.button !== 0) {
+      return;
+    }
+    const hostTop = componentHost.current.getBoundingClientRect().top;
+    const position = scrollPosition.current + e.clientY - hostTop;
+    if (position >= listHeight.current) {
+      return;
+    }
+
+    // --- The sticky header covers the items below it
+    const sticky = lastStickyHeader.current;
+    const index =
+      sticky && e.clientY - hostTop < sticky.offset + sticky.height
+        ? sticky.index
+        : heights.current.findIndex(position);
+    if (index < 0) {
+      return;
+    }
+    if (selectionMode !== "none") {
+      changeSelection(
+        index,
+        getClickAction(selectionMode, e.shiftKey, e.ctrlKey || e.metaKey)
+      );
+    }
+    if (reorderable && !e.shiftKey && !e.ctrlKey && !e.metaKey) {
+      startDrag(index, e.clientY);
+    }
+  }
+
+  /**
+   * Starts tracking the mouse to drag an item
+   * @param index The index of the dragged item
+   * @param clientY The vertical position of the mouse
+   */
+  function startDrag(index: number, clientY: number): void {
+    const state: DragState = {
+      index,
+      startY: clientY,
+      clientY,
+      active: false,
+      target: -1,
+      speed: 0,
+      frame: 0,
+      move: (e: MouseEvent) => moveDrag(state, e.clientY),
+      end: () => endDrag(state),
+    };
+    drag.current = state;
+    window.addEventListener("mousemove", state.move);
+    window.addEventListener("mouseup", state.end);
+  }
+
+  /**
+   * Moves the drop indicator, and scrolls the list when the mouse is near
+   * to its top or bottom edge
+   * @param state Drag state
+   * @param clientY The vertical position of the mouse
+   */
+  function moveDrag(state: DragState, clientY: number): void {
+    state.clientY = clientY;
+    if (!state.active) {
+      if (Math.abs(clientY - state.startY) < DRAG_THRESHOLD) {
+        return;
+      }
+      state.active = true;
+    }
+
+    // --- The scrolling speed is proportional to the distance from the edge
+    const rect = componentHost.current.getBoundingClientRect();
+    const zone = Math.min(AUTO_SCROLL_ZONE, rect.height / 4);
+    if (clientY < rect.top + zone) {
+      state.speed = clientY - rect.top - zone;
+    } else if (clientY > rect.bottom - zone) {
+      state.speed = clientY - rect.bottom + zone;
+    } else {
+      state.speed = 0;
+    }
+    if (state.speed !== 0 && !state.frame) {
+      state.frame = requestAnimationFrame(() => autoScroll(state));
+    }
+    updateDropIndex(state);
+  }
+
+  /**
+   * Scrolls the list while the dragged item is near to an edge
+   * @param state Drag state
+   */
+  function autoScroll(state: DragState): void {
+    state.frame = 0;
+    if (drag.current !== state || state.speed === 0) {
+      return;
+    }
+
+    // --- The list scrolls only at the next render, so calculate the drop
+    // --- position from the new scroll position
+    const maxPosition = Math.max(
+      0,
+      listHeight.current - componentHost.current.offsetHeight
+    );
+    const position = Math.min(
+      maxPosition,
+      Math.max(0, scrollPosition.current + state.speed * AUTO_SCROLL_SPEED)
+    );
+    scrollByUser(position);
+    updateDropIndex(state, position);
+    state.frame = requestAnimationFrame(() => autoScroll(state));
+  }
+
+  /**
+   * Calculates the drop position from the mouse position
+   * @param state Drag state
+   * @param scrollTop The scroll position of the list
+   */
+  function updateDropIndex(
+    state: DragState,
+    scrollTop = scrollPosition.current
+  ): void {
+    const hostTop = componentHost.current.getBoundingClientRect().top;
+    const position = scrollTop + state.clientY - hostTop;
+    const count = heights.current.getCount();
+    let newIndex = count;
+    if (position < listHeight.current) {
+      const index = heights.current.findIndex(position);
+      newIndex =
+        position <
+        heights.current.getTop(index) + heights.current.getHeight(index) / 2
+          ? index
+          : index + 1;
+    }
+    state.target = Math.max(0, newIndex);
+    setDropIndex(state.target);
+  }
+
+  /**
+   * Drops the dragged item
+   * @param state Drag state
+   */
+  function endDrag(state: DragState): void {
+    stopDrag(state);
+    setDropIndex(-1);
+    if (state.active && state.target >= 0) {
+      const to = state.target > state.index ? state.target - 1 : state.target;
+      if (to !== state.index) {
+        onReorder?.(state.index, to);
+      }
+    }
+  }
+
+  /**
+   * Stops tracking the mouse and scrolling the list
+   * @param state Drag state
+   */
+  function stopDrag(state: DragState): void {
+    window.removeEventListener("mousemove", state.move);
+    window.removeEventListener("mouseup", state.end);
+    if (state.frame) {
+      cancelAnimationFrame(state.frame);
+      state.frame = 0;
+    }
+    drag.current = null;
+  }
+
+  /**
+   * Moves the focus (and the selection) by the navigation keys
+   */
+  function handleSelectionKeys(e: React.KeyboardEvent): void {
+    const count = heights.current.getCount();
+    if (count === 0) {
+      return;
+    }
+    const focused = selection.current.focusedIndex;
+    const ctrlKey = e.ctrlKey || e.metaKey;
+    if (e.key === " ") {
+      if (focused >= 0) {
+        changeSelection(
+          focused,
+          selectionMode === "extended" && !ctrlKey ? "select" : "toggle"
+        );
+      }
+      e.preventDefault();
+      return;
+    }
+
+    // --- Calculate the new focused item
+    const viewport = getViewPort();
+    const pageSize = Math.max(1, viewport.endIndex - viewport.startIndex);
+    let index: number;
+    switch (e.key) {
+      case "ArrowDown":
+        index = focused + 1;
+        break;
+      case "ArrowUp":
+        index = focused < 0 ? 0 : focused - 1;
+        break;
+      case "PageDown":
+        index = focused + pageSize;
+        break;
+      case "PageUp":
+        index = focused - pageSize;
+        break;
+      case "Home":
+        index = 0;
+        break;
+      case "End":
+        index = count - 1;
+        break;
+      default:
+        return;
+    }
+    changeSelection(
+      Math.max(0, Math.min(index, count - 1)),
+      getNavigationAction(selectionMode, e.shiftKey, ctrlKey)
+    );
+    e.preventDefault();
+  }
+
+  /**
+   * Changes the selection by a user action, and notifies the host
+   * @param index The index of the item the action targets
+   * @param action Selection action
+   */
+  function changeSelection(index: number, action: SelectionAction): void {
+    applySelection(
+      updateSelection(selection.current, selectionMode, index, action)
+    );
+    revealItem(index, true);
+    onSelectionChanged?.(getSelection(), selection.current.focusedIndex);
+    announceSelectionChange();
+  }
+
+  /**
+   * Announces the focused item and the number of selected items to screen
+   * readers
+   */
+  function announceSelectionChange(): void {
+    const focused = selection.current.focusedIndex;
+    if (!announceSelection || focused < 0) {
+      return;
+    }
+    const selectedCount = selection.current.ranges.reduce(
+      (count, range) => count + range.endIndex - range.startIndex + 1,
+      0
+    );
+
+    // --- The focused item tells more than the viewport it scrolls to
+    clearTimeout(viewportAnnouncementTimer.current);
+    focusAnnounced.current = true;
+    setAnnouncement(
+      getSelectionAnnouncement(focused, selectedCount, itemsCount)
+    );
+  }
+
+  /**
+   * Stores the new selection and renders the visible items again
+   * @param newSelection The new selection
+   */
+  function applySelection(newSelection: ListSelection): void {
+    selection.current = newSelection;
+    refreshVisibleItems();
+  }
+
+  /**
+   * Scrolls the list only if the specified item is not entirely visible
+   * @param index Item index
+   * @param byUser Indicates that the user scrolls the list
+   */
+  function revealItem(index: number, byUser = false): void {
+    const itemTop = heights.current.getTop(index);
+    const itemBottom = itemTop + heights.current.getHeight(index);
+    let location: ItemTargetLocation;
+    if (itemTop < scrollPosition.current) {
+      location = "top";
+    } else if (
+      itemBottom >
+      scrollPosition.current + componentHost.current.offsetHeight
+    ) {
+      location = "bottom";
+    } else {
+      // --- The item is visible, no scrolling happens
+      return;
+    }
+    const position = getItemPosition(index, location);
+    if (byUser) {
+      scrollByUser(position);
+    } else {
+      requestPosition(position);
+    }
+  }
+
+  /**
+   * Displays or hides the scrollbars
+   * @param show Indicates if scrollbars should be displayed
+   */
+  function displayScrollbars(show: boolean): void {
+    verticalApi.current?.display(show);
+    horizontalApi.current?.display(show);
   }
 
   // --------------------------------------------------------------------------
@@ -759,19 +2459,29 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
    */
   function forceRefresh(scrollPosition?: number): void {
     if (scrollPosition !== undefined) {
-      setRequestedPos(scrollPosition);
+      requestPosition(scrollPosition);
     } else {
-      setRefreshTrigger(refreshTrigger + 1);
+      itemCache.current.clear();
+      refreshVisibleItems();
     }
   }
 
+  /**
+   * Renders the visible items again, even if the viewport is the same. The
+   * cached items are kept; they are rendered again only if their version or
+   * state has changed.
+   */
+  function refreshVisibleItems(): void {
+    lastViewport.current = { startIndex: -1, endIndex: -1 };
+    setRefreshTrigger((trigger) => trigger + 1);
+  }
+
   /**
    * Scrolls to the item with the specified index
    */
   function scrollToItemByIndex(index: number): void {
-    const heightItem = heights.current[index];
-    if (heightItem) {
-      setRequestedPos(heightItem.top);
+    if (index >= 0 && index < heights.current.getCount()) {
+      requestPosition(heights.current.getTop(index));
     }
   }
 
@@ -779,14 +2489,14 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
    * Scrolls to the top
    */
   function scrollToTop(): void {
-    setRequestedPos(0);
+    requestPosition(0);
   }
 
   /**
    * Scrolls to the bottom
    */
   function scrollToBottom(): void {
-    setRequestedPos(MAX_LIST_PIXELS);
+    requestPosition(BOTTOM_POSITION);
   }
 
   /**
@@ -796,37 +2506,12 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
     if (!heights.current || !componentHost.current) {
       return { startIndex: -1, endIndex: -1 };
     }
-    var scrollTop = componentHost.current.scrollTop;
+    var scrollTop = scrollPosition.current;
     var height = componentHost.current.offsetHeight;
-    const startIndex = binarySearch(heights.current, scrollTop);
-    const endIndex = binarySearch(heights.current, scrollTop + height);
+    const startIndex = heights.current.findIndex(scrollTop);
+    const endIndex = heights.current.findIndex(scrollTop + height);
     const result = { startIndex, endIndex };
     return result;
-
-    function binarySearch(items: HeightInfo[], value: number): number {
-      var startIndex = 0,
-        stopIndex = items.length - 1,
-        middle = Math.floor((stopIndex + startIndex) / 2);
-
-      while (
-        (value < items[middle].top ||
-          value >= items[middle].top + items[middle].height) &&
-        startIndex < stopIndex
-      ) {
-        // --- Adjust search area
-        if (value < items[middle].top) {
-          stopIndex = middle - 1;
-        } else if (value > items[middle].top) {
-          startIndex = middle + 1;
-        }
-
-        // --- Recalculate middle
-        middle = Math.max(0, Math.floor((stopIndex + startIndex) / 2));
-      }
-
-      // --- Done
-      return middle;
-    }
   }
 
   /**
@@ -834,26 +2519,66 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
    * entirelly in the current viewport
    */
   function ensureVisible(index: number, location: ItemTargetLocation): void {
-    const heightItem = heights.current[index];
-    if (!heightItem) {
+    if (index < 0 || index >= heights.current.getCount()) {
       // --- We cannot ensure the visibility of a non-existing item
       return;
     }
-    let top = heightItem.top;
+    requestPosition(getItemPosition(index, location));
+  }
+
+  /**
+   * Gets the scroll position that displays an item at the specified location
+   * @param index Item index
+   * @param location The location of the item in the viewport
+   */
+  function getItemPosition(
+    index: number,
+    location: ItemTargetLocation
+  ): number {
+    const itemTop = heights.current.getTop(index);
+    const itemHeight = heights.current.getHeight(index);
+    let top = itemTop;
     switch (location) {
       case "bottom":
-        top =
-          heightItem.top -
-          componentHost.current.offsetHeight +
-          heightItem.height;
+        top = itemTop - componentHost.current.offsetHeight + itemHeight;
         break;
       case "center":
-        top =
-          heightItem.top -
-          (componentHost.current.offsetHeight - heightItem.height) / 2;
+        top = itemTop - (componentHost.current.offsetHeight - itemHeight) / 2;
         break;
     }
-    setRequestedPos(top);
+    return top;
+  }
+
+  /**
+   * Gets the ranges of the selected items in ascending order
+   */
+  function getSelection(): SelectionRange[] {
+    return selection.current.ranges;
+  }
+
+  /**
+   * Sets the ranges of the selected items and the focused item
+   */
+  function setSelection(ranges: SelectionRange[], focusedIndex?: number): void {
+    const count = heights.current.getCount();
+    const focused =
+      focusedIndex !== undefined && focusedIndex < count ? focusedIndex : -1;
+    applySelection(
+      limitSelection(
+        createSelection(
+          ranges.map((range) => ({
+            startIndex: Math.max(0, range.startIndex),
+            endIndex: range.endIndex,
+          })),
+          focused
+        ),
+        count
+      )
+    );
+    if (focused >= 0) {
+      revealItem(focused);
+    }
+    announceSelectionChange();
   }
 
   /**
@@ -867,19 +2592,293 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
    * Initiates remeasuring the specified range of items
    */
   function remeasure(start: number, end: number) {
+    // --- Observed items are measured again when observed again
+    if (measuresRenderedItems()) {
+      forgetObservedItems();
+      observeVisibleItems();
+      return;
+    }
+
     // --- Prepare the next remeasure batch
     batchQueue.current.push({
       startIndex: Math.max(0, start),
-      endIndex: Math.min(itemsCount, end),
+      endIndex: Math.min(heights.current.getCount() - 1, end),
     });
 
     // --- Let's keep the top item's position, if required so
-    if (reposition) {
-      positionToIndex.current = getViewPort().startIndex;
+    if (reposition && !pinnedAnchor.current) {
+      pinnedAnchor.current = getScrollAnchor();
     }
 
     // --- Initiate remeasuring
-    setRemeasureTrigger(remeasureTrigger + 1);
+    setRemeasureTrigger((trigger) => trigger + 1);
+  }
+
+  /**
+   * Inserts new items at the specified index
+   */
+  function insertItems(index: number, count: number): void {
+    const heightIndex = heights.current;
+    const insertAt = Math.max(0, Math.min(index, heightIndex.getCount()));
+    if (count <= 0) {
+      return;
+    }
+
+    // --- Keep the first visible item in its place
+    const anchor = getScrollAnchor();
+
+    // --- Create the height information of new items
+    const newHeight =
+      heightMode === "first" && heightIndex.getCount() > 0
+        ? heightIndex.getHeight(0)
+        : itemHeight;
+    heightIndex.insert(insertAt, count, newHeight);
+    if (heightMode === "estimated" && estimateHeight) {
+      for (let i = insertAt; i < insertAt + count; i++) {
+        heightIndex.setHeight(i, estimateHeight(i));
+      }
+    }
+    shiftMeasureQueues(insertAt, count);
+    selection.current = shiftSelection(selection.current, insertAt, count);
+    completeIncrementalChange(insertAt, count);
+
+    // --- Keep the anchor (or the tail), and measure the new items
+    if (!pinToTail() && anchor) {
+      if (anchor.index >= insertAt) {
+        anchor.index += count;
+      }
+      scrollToAnchor(anchor);
+    }
+    if (heightMode === "variable" && !autoMeasure) {
+      // --- Keep the anchor until the new items get measured
+      pinnedAnchor.current = anchor;
+      remeasure(insertAt, insertAt + count - 1);
+    }
+  }
+
+  /**
+   * Removes items from the specified index
+   */
+  function removeItems(index: number, count: number): void {
+    const heightIndex = heights.current;
+    const removeAt = Math.max(0, index);
+    const removeCount = Math.min(count, heightIndex.getCount() - removeAt);
+    if (removeCount <= 0) {
+      return;
+    }
+
+    // --- Keep the first visible item (or its next) in its place
+    const anchor = getScrollAnchor();
+
+    heightIndex.remove(removeAt, removeCount);
+    shiftMeasureQueues(removeAt, -removeCount);
+    selection.current = shiftSelection(
+      selection.current,
+      removeAt,
+      -removeCount
+    );
+    completeIncrementalChange(removeAt, -removeCount);
+
+    if (!pinToTail() && anchor) {
+      if (anchor.index >= removeAt + removeCount) {
+        anchor.index -= removeCount;
+      } else if (anchor.index >= removeAt) {
+        anchor.index = Math.min(removeAt, heights.current.getCount() - 1);
+        anchor.offset = 0;
+      }
+      scrollToAnchor(anchor);
+    }
+  }
+
+  /**
+   * Shifts the item indexes waiting for measurement after inserting or
+   * removing items
+   * @param index The index of the first inserted or removed item
+   * @param delta The number of inserted (positive) or removed (negative) items
+   */
+  function shiftMeasureQueues(index: number, delta: number): void {
+    const shift = (itemIndex: number) =>
+      itemIndex < index ? itemIndex : itemIndex + delta;
+    const removed = (itemIndex: number) =>
+      delta < 0 && itemIndex >= index && itemIndex < index - delta;
+    calculationQueue.current = calculationQueue.current
+      .filter((itemIndex) => !removed(itemIndex))
+      .map(shift);
+    batchQueue.current = batchQueue.current
+      .map((batch) => ({
+        startIndex: removed(batch.startIndex) ? index : shift(batch.startIndex),
+        endIndex: removed(batch.endIndex) ? index - 1 : shift(batch.endIndex),
+      }))
+      .filter((batch) => batch.startIndex <= batch.endIndex);
+
+    // --- The batch in flight is measured at the shifted indexes
+    measuredIndexes.current = measuredIndexes.current.map((itemIndex) =>
+      removed(itemIndex) ? -1 : shift(itemIndex)
+    );
+  }
+
+  /**
+   * Completes inserting or removing items
+   * @param index The index of the first inserted or removed item
+   * @param delta The number of inserted (positive) or removed (negative) items
+   */
+  function completeIncrementalChange(index: number, delta: number): void {
+    incrementalCount.current = heights.current.getCount();
+    shiftGroupHeaders(index, delta);
+    shiftDataPages(index, delta);
+    updateTotalHeight(heights.current.getTotalHeight());
+    lastViewport.current = { startIndex: -1, endIndex: -1 };
+    itemCache.current.clear();
+    observedHeights.current.clear();
+    setRefreshTrigger((trigger) => trigger + 1);
+  }
+
+  /**
+   * Tells if the heights of items are measured when they get rendered
+   */
+  function measuresRenderedItems(): boolean {
+    return autoMeasure || heightMode === "estimated";
+  }
+
+  /**
+   * Starts observing the size of the rendered items, and stops observing
+   * the items that are not rendered anymore
+   */
+  function observeVisibleItems(): void {
+    if (!measuresRenderedItems()) {
+      itemObserver.current?.disconnect();
+      itemObserver.current = undefined;
+      observedItems.current.clear();
+      return;
+    }
+
+    // --- All items share the same observer
+    if (!itemObserver.current) {
+      itemObserver.current = new ResizeObserver((entries) =>
+        queueObservedHeights(entries)
+      );
+    }
+    const observer = itemObserver.current;
+    const items = new Set<Element>(
+      Array.from(
+        componentHost.current?.querySelectorAll(
+          ":scope > .inner > [data-index]"
+        ) ?? []
+      )
+    );
+    observedItems.current.forEach((_, item) => {
+      if (!items.has(item)) {
+        observer.unobserve(item);
+        observedItems.current.delete(item);
+      }
+    });
+
+    // --- A recycled container is observed again to measure its new item
+    items.forEach((item) => {
+      const index = (item as HTMLElement).dataset.index ?? "";
+      const observedIndex = observedItems.current.get(item);
+      if (observedIndex !== index) {
+        if (observedIndex !== undefined) {
+          observer.unobserve(item);
+        }
+        observer.observe(item);
+        observedItems.current.set(item, index);
+      }
+    });
+  }
+
+  /**
+   * Stops observing all items so that they get measured again when
+   * observed the next time
+   */
+  function forgetObservedItems(): void {
+    itemObserver.current?.disconnect();
+    observedItems.current.clear();
+  }
+
+  /**
+   * Collects the observed item heights, and applies them in the next frame
+   * @param entries The resized items
+   */
+  function queueObservedHeights(entries: ResizeObserverEntry[]): void {
+    for (const entry of entries) {
+      const element = entry.target as HTMLElement;
+      const index = Number(element.dataset.index);
+      if (element.isConnected && !isNaN(index)) {
+        observedHeights.current.set(index, element.offsetHeight);
+      }
+    }
+    if (observedHeightsFrame.current < 0) {
+      observedHeightsFrame.current = requestAnimationFrame(() => {
+        observedHeightsFrame.current = -1;
+        applyObservedHeights();
+      });
+    }
+  }
+
+  /**
+   * Stores the observed item heights. The top visible item keeps its
+   * position, the items below are shifted.
+   */
+  function applyObservedHeights(): void {
+    const measured = observedHeights.current;
+    observedHeights.current = new Map();
+    const heightIndex = heights.current;
+    const anchor = getScrollAnchor();
+    let changed = false;
+    measured.forEach((height, index) => {
+      if (
+        index < heightIndex.getCount() &&
+        heightIndex.getHeight(index) !== height
+      ) {
+        heightIndex.setHeight(index, height);
+        changed = true;
+      }
+    });
+    if (!changed) {
+      return;
+    }
+    updateTotalHeight(heightIndex.getTotalHeight());
+    refreshVisibleItems();
+    if (!pinToTail() && anchor) {
+      scrollToAnchor(anchor);
+    }
+  }
+
+  /**
+   * Gets the anchor of the current scroll position: the first visible item
+   * and the offset of the position within that item
+   */
+  function getScrollAnchor(): ScrollState | null {
+    const index = getViewPort().startIndex;
+    if (index < 0) {
+      return null;
+    }
+    return {
+      index,
+      offset: scrollPosition.current - heights.current.getTop(index),
+    };
+  }
+
+  /**
+   * Restores a scroll position. While items are being measured, the
+   * position is applied again when measuring completes.
+   */
+  function restoreScrollState(state: ScrollState): void {
+    const anchor = { index: state.index, offset: state.offset };
+    if (measuring.current || calculationQueue.current.length > 0) {
+      pinnedAnchor.current = anchor;
+    }
+    scrollToAnchor(anchor);
+  }
+
+  /**
+   * Scrolls to the specified anchor
+   */
+  function scrollToAnchor(anchor: ScrollState): void {
+    if (anchor.index >= 0 && anchor.index < heights.current.getCount()) {
+      requestPosition(heights.current.getTop(anchor.index) + anchor.offset);
+    }
   }
 };
 
@@ -887,18 +2886,29 @@ export const VirtualizedList: React.FC<VirtualizedListProps> = ({
 // Helper types and values
 
 /**
- * Height information of a particular list item
+ * Information about a visible item
  */
-type HeightInfo = {
-  top: number;
-  height: number;
+type VisibleItem = {
+  index: number;
+  key: number;
+  item: JSX.Element;
 };
 
 /**
- * Information about a visible item
+ * A data page that could not be loaded
  */
-type VisibleItem = {
-  index: number;
+type FailedPage = {
+  failures: number;
+  retryAt: number;
+};
+
+/**
+ * An item rendered into the viewport, kept to render it again
+ */
+type CachedItem = {
+  top: number;
+  version: unknown;
+  state: ItemRenderState;
   item: JSX.Element;
 };
 
@@ -907,6 +2917,56 @@ type VisibleItem = {
  */
 type Viewport = { startIndex: number; endIndex: number };
 
+/**
+ * The group header that sticks to the top of the viewport
+ */
+type StickyHeader = {
+  index: number;
+  offset: number;
+  height: number;
+  top: number;
+};
+
+/**
+ * The state of dragging an item
+ */
+type DragState = {
+  index: number;
+  startY: number;
+  clientY: number;
+  active: boolean;
+  target: number;
+  speed: number;
+  frame: number;
+  move: (e: MouseEvent) => void;
+  end: () => void;
+};
+
+/**
+ * The items that match the text in the find bar
+ */
+type FindMatches = { indexes: number[]; current: number };
+
+/**
+ * Keeps the layout of a grid row when its content is wrapped into a cell
+ */
+const gridCellStyle: CSSProperties = { display: "contents" };
+
+/**
+ * Hides the live region visually, but keeps it available to screen readers
+ */
+const visuallyHiddenStyle: CSSProperties = {
+  position: "absolute",
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  overflow: "hidden",
+  clip: "rect(0 0 0 0)",
+  whiteSpace: "nowrap",
+  border: 0,
+};
+
 /**
  * Each virtual item has this type for measuring and displaying the item
  */
@@ -915,3 +2975,17 @@ const explicitItemType: CSSProperties = {
   top: 0,
   overflowX: "hidden",
 };
+
+/**
+ * Tells if two item states render the same item
+ */
+function isSameItemState(a: ItemRenderState, b: ItemRenderState): boolean {
+  return (
+    a.selected === b.selected &&
+    a.focused === b.focused &&
+    a.sticky === b.sticky &&
+    a.matched === b.matched &&
+    a.currentMatch === b.currentMatch &&
+    a.isScrolling === b.isScrolling
+  );
+}
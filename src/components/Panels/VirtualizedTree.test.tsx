@@ -0,0 +1,220 @@
+import * as React from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+import {
+  TreeDataProvider,
+  VirtualizedTree,
+  VirtualizedTreeProps,
+} from "./VirtualizedTree";
+
+const ITEM_HEIGHT = 22;
+const HOST_HEIGHT = 220;
+
+/**
+ * A promise that the test resolves or rejects
+ */
+type Deferred<T> = {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: unknown) => void;
+};
+
+/**
+ * Creates a promise that the test resolves or rejects
+ */
+function defer<T>(): Deferred<T> {
+  const deferred = {} as Deferred<T>;
+  deferred.promise = new Promise<T>((resolve, reject) => {
+    deferred.resolve = resolve;
+    deferred.reject = reject;
+  });
+  return deferred;
+}
+
+/**
+ * Creates a provider with the "a", "b" and "c" root nodes. The children of
+ * "a" are available at once, the children of "b" and "c" are loaded.
+ */
+function createProvider() {
+  const loads = new Map<string, Deferred<string[]>>();
+  const getChildren = jest.fn((node?: string) => {
+    if (node === undefined) {
+      return ["a", "b", "c"];
+    }
+    if (node === "a") {
+      return ["a1", "a2"];
+    }
+    const load = defer<string[]>();
+    loads.set(node, load);
+    return load.promise;
+  });
+  const provider: TreeDataProvider<string> = {
+    getChildren,
+    hasChildren: (node) => node.length === 1,
+  };
+  return { provider, getChildren, loads };
+}
+
+/**
+ * Renders a tree with the test provider
+ */
+function renderTree(props: Partial<VirtualizedTreeProps<string>> = {}) {
+  const { provider, getChildren, loads } = createProvider();
+  const result = render(
+    <VirtualizedTree
+      provider={provider}
+      itemHeight={ITEM_HEIGHT}
+      renderNode={(node) => <span className="label">{node}</span>}
+      {...props}
+    />
+  );
+  const tree = () => result.getByRole("tree");
+  return {
+    ...result,
+    getChildren,
+    loads,
+    tree,
+    pressKey: (key: string) => fireEvent.keyDown(tree(), { key }),
+    row: (node: string) =>
+      Array.from(result.container.querySelectorAll("[role=treeitem]")).find(
+        (row) => row.querySelector(".label")?.textContent === node
+      )!,
+    rowTexts: () =>
+      Array.from(
+        result.container.querySelectorAll("[role=treeitem]"),
+        (row) => row.querySelector(".label")?.textContent ?? row.textContent
+      ),
+  };
+}
+
+/**
+ * Expands a row by clicking its toggle
+ */
+function clickToggle(row: Element): void {
+  fireEvent.click(row.querySelector("span:not(.label)")!);
+}
+
+describe("VirtualizedTree", () => {
+  const offsetHeight = Object.getOwnPropertyDescriptor(
+    HTMLElement.prototype,
+    "offsetHeight"
+  );
+
+  beforeAll(() => {
+    // --- jsdom does not lay out the elements
+    Object.defineProperty(HTMLElement.prototype, "offsetHeight", {
+      configurable: true,
+      get() {
+        return this.hasAttribute("data-index") ? ITEM_HEIGHT : HOST_HEIGHT;
+      },
+    });
+  });
+
+  afterAll(() => {
+    Object.defineProperty(HTMLElement.prototype, "offsetHeight", offsetHeight!);
+  });
+
+  it("renders the root nodes", () => {
+    const { getChildren, row, rowTexts } = renderTree();
+    expect(rowTexts()).toEqual(["a", "b", "c"]);
+    expect(row("b").getAttribute("aria-level")).toBe("1");
+    expect(row("b").getAttribute("aria-posinset")).toBe("2");
+    expect(row("b").getAttribute("aria-setsize")).toBe("3");
+    expect(row("b").getAttribute("aria-expanded")).toBe("false");
+    expect(getChildren).toHaveBeenCalledTimes(1);
+  });
+
+  it("inserts and removes the children when expanding and collapsing", () => {
+    const onExpandedChanged = jest.fn();
+    const { row, rowTexts } = renderTree({ onExpandedChanged });
+    clickToggle(row("a"));
+    expect(rowTexts()).toEqual(["a", "a1", "a2", "b", "c"]);
+    expect(row("a").getAttribute("aria-expanded")).toBe("true");
+    expect(row("a2").getAttribute("aria-level")).toBe("2");
+    expect(row("a2").getAttribute("aria-posinset")).toBe("2");
+
+    clickToggle(row("a"));
+    expect(rowTexts()).toEqual(["a", "b", "c"]);
+    expect(onExpandedChanged.mock.calls).toEqual([
+      ["a", true],
+      ["a", false],
+    ]);
+  });
+
+  it("displays a loading row until the children are loaded", async () => {
+    const { container, getChildren, loads, row, rowTexts } = renderTree();
+    expect(getChildren).not.toHaveBeenCalledWith("b");
+    clickToggle(row("b"));
+    expect(getChildren).toHaveBeenCalledWith("b");
+    expect(rowTexts()).toEqual(["a", "b", "⟳ Loading...", "c"]);
+    expect(container.querySelector("[aria-busy=true]")?.textContent).toBe(
+      "⟳ Loading..."
+    );
+
+    await act(async () => loads.get("b")!.resolve(["b1", "b2"]));
+    expect(rowTexts()).toEqual(["a", "b", "b1", "b2", "c"]);
+  });
+
+  it("displays an error row when loading the children fails", async () => {
+    const onLoadError = jest.fn();
+    const { loads, row, rowTexts } = renderTree({ onLoadError });
+    clickToggle(row("c"));
+    const error = new Error("offline");
+    await act(async () => loads.get("c")!.reject(error));
+    expect(rowTexts()).toEqual(["a", "b", "c", "⚠ Failed to load"]);
+    expect(onLoadError).toHaveBeenCalledWith("c", error);
+  });
+
+  it("drops the children loaded after the parent is collapsed", async () => {
+    const { loads, row, rowTexts } = renderTree();
+    clickToggle(row("b"));
+    clickToggle(row("b"));
+    await act(async () => loads.get("b")!.resolve(["b1", "b2"]));
+    expect(rowTexts()).toEqual(["a", "b", "c"]);
+  });
+
+  it("expands, collapses and moves to the parent with the arrow keys", () => {
+    const onSelectionChanged = jest.fn();
+    const { pressKey, row, rowTexts } = renderTree({ onSelectionChanged });
+    pressKey("ArrowDown");
+    expect(onSelectionChanged).toHaveBeenLastCalledWith("a");
+
+    // --- The first Right expands, the second one moves to the first child
+    pressKey("ArrowRight");
+    expect(rowTexts()).toEqual(["a", "a1", "a2", "b", "c"]);
+    pressKey("ArrowRight");
+    expect(onSelectionChanged).toHaveBeenLastCalledWith("a1");
+    expect(row("a1").getAttribute("aria-selected")).toBe("true");
+
+    // --- Left moves to the parent first, then collapses it
+    pressKey("ArrowLeft");
+    expect(onSelectionChanged).toHaveBeenLastCalledWith("a");
+    pressKey("ArrowLeft");
+    expect(rowTexts()).toEqual(["a", "b", "c"]);
+    pressKey("End");
+    expect(onSelectionChanged).toHaveBeenLastCalledWith("c");
+  });
+
+  it("expands all siblings with *", () => {
+    const { pressKey, rowTexts } = renderTree();
+    pressKey("Home");
+    pressKey("*");
+    expect(rowTexts()).toEqual([
+      "a",
+      "a1",
+      "a2",
+      "b",
+      "⟳ Loading...",
+      "c",
+      "⟳ Loading...",
+    ]);
+  });
+
+  it("activates the focused node with Enter", () => {
+    const onNodeActivated = jest.fn();
+    const { pressKey } = renderTree({ onNodeActivated });
+    pressKey("ArrowDown");
+    pressKey("ArrowDown");
+    pressKey("Enter");
+    expect(onNodeActivated).toHaveBeenCalledWith("b");
+  });
+});
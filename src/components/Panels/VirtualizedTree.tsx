@@ -0,0 +1,548 @@
+import * as React from "react";
+import {
+  CSSProperties,
+  PropsWithChildren,
+  ReactElement,
+  ReactNode,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import {
+  ItemRenderState,
+  VirtualizedList,
+  VirtualizedListApi,
+} from "./VirtualizedList";
+
+/**
+ * Provides the nodes of a virtualized tree lazily
+ */
+export type TreeDataProvider<T> = {
+  /**
+   * Gets the children of a node; the root nodes, if the node is undefined
+   */
+  getChildren: (node?: T) => T[] | Promise<T[]>;
+
+  /**
+   * Tells if the specified node may have children
+   */
+  hasChildren: (node: T) => boolean;
+};
+
+/**
+ * The state of a tree node passed to the node renderer
+ */
+export type TreeNodeRenderState = {
+  level: number;
+  expanded: boolean;
+  hasChildren: boolean;
+  selected: boolean;
+  focused: boolean;
+};
+
+/**
+ * The properties of the virtualized tree
+ */
+export type VirtualizedTreeProps<T> = {
+  /**
+   * The provider of the tree nodes
+   */
+  provider: TreeDataProvider<T>;
+
+  /**
+   * The function that renders the content of a particular node
+   */
+  renderNode: (node: T, state: TreeNodeRenderState) => ReactNode;
+
+  /**
+   * The height of tree rows
+   */
+  itemHeight?: number;
+
+  /**
+   * The indentation of a tree level
+   */
+  indent?: number;
+
+  /**
+   * Indicates that indentation guides should be displayed
+   */
+  showGuides?: boolean;
+
+  /**
+   * Extra style information to add to the tree
+   */
+  style?: CSSProperties;
+
+  /**
+   * Function called when the focused node changes
+   */
+  onSelectionChanged?: (node: T | undefined) => void;
+
+  /**
+   * Function called when the user activates a node with Enter
+   */
+  onNodeActivated?: (node: T) => void;
+
+  /**
+   * Function called when a node is expanded or collapsed
+   */
+  onExpandedChanged?: (node: T, expanded: boolean) => void;
+
+  /**
+   * Function called when loading the children of a node fails; the node is
+   * undefined when loading the root nodes fails
+   */
+  onLoadError?: (node: T | undefined, error: unknown) => void;
+};
+
+/**
+ * Implements a virtualized tree that loads the children of nodes when
+ * they are expanded
+ */
+export function VirtualizedTree<T>({
+  provider,
+  renderNode,
+  itemHeight = 22,
+  indent = 16,
+  showGuides = true,
+  style,
+  onSelectionChanged,
+  onNodeActivated,
+  onExpandedChanged,
+  onLoadError,
+}: PropsWithChildren<VirtualizedTreeProps<T>>): ReactElement {
+  // --- Component state to trigger rendering
+  const [itemsCount, setItemsCount] = useState(0);
+
+  // --- Other state information
+  const rows = useRef<TreeRow<T>[]>([]);
+  const listApi = useRef<VirtualizedListApi>();
+  const mounted = useRef(false);
+
+  // --- Do not update the state after unmounting the component
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  // --- Load the root nodes whenever the provider changes
+  useEffect(() => {
+    collapseRow(-1);
+    insertChildren(0, 0, provider.getChildren());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [provider]);
+
+  return (
+    <div style={{ ...style, position: "relative", height: "100%" }}>
+      <VirtualizedList
+        itemsCount={itemsCount}
+        itemHeight={itemHeight}
+        focusable={true}
+        selectionMode="single"
+        role="tree"
+        renderItem={(index, itemStyle, state) =>
+          renderRow(index, itemStyle, state)
+        }
+        registerApi={(api) => (listApi.current = api)}
+        onSelectionChanged={(_, focusedIndex) =>
+          onSelectionChanged?.(rows.current[focusedIndex]?.node)
+        }
+        handleKeys={(e) => handleKeys(e)}
+      />
+    </div>
+  );
+
+  /**
+   * Renders a particular row of the tree
+   * @param index Row index
+   * @param itemStyle Style information from the list
+   * @param state Item state from the list
+   */
+  function renderRow(
+    index: number,
+    itemStyle: CSSProperties,
+    state: ItemRenderState
+  ): JSX.Element {
+    const row = rows.current[index];
+    const hasChildren =
+      row?.node !== undefined && provider.hasChildren(row.node);
+    const rowStyle: CSSProperties = {
+      ...itemStyle,
+      display: "flex",
+      alignItems: "center",
+      width: "100%",
+      height: itemHeight,
+      whiteSpace: "nowrap",
+      cursor: "default",
+      background: state.selected ? "#cce8ff" : undefined,
+      outline: state.focused ? "1px dotted #0078d4" : undefined,
+      outlineOffset: -1,
+    };
+    if (!row) {
+      return <div style={rowStyle} />;
+    }
+    return (
+      <div
+        style={rowStyle}
+        role="treeitem"
+        aria-level={row.level + 1}
+        aria-posinset={row.position + 1}
+        aria-setsize={row.siblings}
+        aria-expanded={hasChildren ? row.expanded : undefined}
+        aria-selected={state.selected}
+        aria-busy={row.loading || undefined}
+        onDoubleClick={() => toggleRow(index)}
+      >
+        {renderGuides(row.level)}
+        <span
+          style={{
+            display: "inline-block",
+            flexShrink: 0,
+            width: indent,
+            textAlign: "center",
+          }}
+          onMouseDown={(e) => hasChildren && e.stopPropagation()}
+          onClick={() => hasChildren && toggleRow(index)}
+        >
+          {hasChildren ? (row.expanded ? "▾" : "▸") : ""}
+        </span>
+        {row.node === undefined ? (
+          row.failed ? (
+            <span style={{ color: "#c00000" }}>⚠ Failed to load</span>
+          ) : (
+            <span style={{ color: "#808080" }}>⟳ Loading...</span>
+          )
+        ) : (
+          renderNode(row.node, {
+            level: row.level,
+            expanded: row.expanded,
+            hasChildren,
+            selected: state.selected,
+            focused: state.focused,
+          })
+        )}
+      </div>
+    );
+  }
+
+  /**
+   * Renders the indentation guides of a row
+   * @param level Tree level of the row
+   */
+  function renderGuides(level: number): ReactElement[] {
+    const guides: ReactElement[] = [];
+    for (let i = 0; i < level; i++) {
+      guides.push(
+        <span
+          key={i}
+          style={{
+            display: "inline-block",
+            flexShrink: 0,
+            alignSelf: "stretch",
+            width: indent / 2,
+            marginLeft: indent / 2,
+            borderLeft: showGuides ? "1px solid #d0d0d0" : undefined,
+          }}
+        />
+      );
+    }
+    return guides;
+  }
+
+  /**
+   * Handles the tree navigation keys
+   */
+  function handleKeys(e: React.KeyboardEvent): void {
+    const count = rows.current.length;
+    const api = listApi.current;
+    if (!api || count === 0) {
+      return;
+    }
+    const focused = api.getFocusedIndex();
+    if (focused < 0) {
+      if (["ArrowDown", "ArrowUp", "Home", "End"].includes(e.key)) {
+        focusRow(0);
+        e.preventDefault();
+      }
+      return;
+    }
+    const row = rows.current[focused];
+    const viewport = api.getViewPort();
+    const pageSize = Math.max(1, viewport.endIndex - viewport.startIndex);
+    switch (e.key) {
+      case "ArrowDown":
+        focusRow(focused + 1);
+        break;
+      case "ArrowUp":
+        focusRow(focused - 1);
+        break;
+      case "PageDown":
+        focusRow(focused + pageSize);
+        break;
+      case "PageUp":
+        focusRow(focused - pageSize);
+        break;
+      case "Home":
+        focusRow(0);
+        break;
+      case "End":
+        focusRow(count - 1);
+        break;
+      case "ArrowRight":
+        if (row.node === undefined || !provider.hasChildren(row.node)) {
+          break;
+        }
+        if (!row.expanded) {
+          expandRow(focused);
+        } else if (rows.current[focused + 1]?.level > row.level) {
+          focusRow(focused + 1);
+        }
+        break;
+      case "ArrowLeft":
+        if (row.expanded) {
+          collapseRow(focused);
+        } else if (row.level > 0) {
+          focusRow(getParentIndex(focused));
+        }
+        break;
+      case "Enter":
+        if (row.node !== undefined) {
+          onNodeActivated?.(row.node);
+        }
+        break;
+      case "*":
+        expandSiblings(focused);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  }
+
+  /**
+   * Moves the focus to the specified row
+   * @param index Row index
+   */
+  function focusRow(index: number): void {
+    const newIndex = Math.max(0, Math.min(index, rows.current.length - 1));
+    listApi.current?.setSelection(
+      [{ startIndex: newIndex, endIndex: newIndex }],
+      newIndex
+    );
+    onSelectionChanged?.(rows.current[newIndex]?.node);
+  }
+
+  /**
+   * Gets the index of the parent row; -1, if the row is a root
+   * @param index Row index
+   */
+  function getParentIndex(index: number): number {
+    const level = rows.current[index].level;
+    for (let i = index - 1; i >= 0; i--) {
+      if (rows.current[i].level < level) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Expands or collapses the specified row
+   * @param index Row index
+   */
+  function toggleRow(index: number): void {
+    if (rows.current[index]?.expanded) {
+      collapseRow(index);
+    } else {
+      expandRow(index);
+    }
+  }
+
+  /**
+   * Expands the specified row and inserts its children after it
+   * @param index Row index
+   */
+  function expandRow(index: number): void {
+    const row = rows.current[index];
+    if (
+      !row ||
+      row.node === undefined ||
+      row.expanded ||
+      !provider.hasChildren(row.node)
+    ) {
+      return;
+    }
+    row.expanded = true;
+    onExpandedChanged?.(row.node, true);
+    insertChildren(
+      index + 1,
+      row.level + 1,
+      provider.getChildren(row.node),
+      row.node
+    );
+    listApi.current?.forceRefresh();
+  }
+
+  /**
+   * Collapses the specified row and removes its descendants
+   * @param index Row index; -1 removes all rows
+   */
+  function collapseRow(index: number): void {
+    const row = rows.current[index];
+    const level = row ? row.level : -1;
+    let end = index + 1;
+    while (end < rows.current.length && rows.current[end].level > level) {
+      end++;
+    }
+    removeRows(index + 1, end - index - 1);
+    if (row?.expanded) {
+      row.expanded = false;
+      if (row.node !== undefined) {
+        onExpandedChanged?.(row.node, false);
+      }
+      listApi.current?.forceRefresh();
+    }
+  }
+
+  /**
+   * Expands all siblings of the specified row
+   * @param index Row index
+   */
+  function expandSiblings(index: number): void {
+    const parentIndex = getParentIndex(index);
+    const level = rows.current[index].level;
+    const siblings: number[] = [];
+    for (
+      let i = parentIndex + 1;
+      i < rows.current.length && rows.current[i].level >= level;
+      i++
+    ) {
+      if (rows.current[i].level === level) {
+        siblings.push(i);
+      }
+    }
+
+    // --- Expand from the last one so that the indexes remain valid
+    for (let i = siblings.length - 1; i >= 0; i--) {
+      expandRow(siblings[i]);
+    }
+  }
+
+  /**
+   * Inserts child rows; displays a loading row while the children are
+   * loaded asynchronously, and an error row if loading them fails
+   * @param index The index to insert the rows at
+   * @param level Tree level of the children
+   * @param children Child nodes
+   * @param parent The parent node; undefined for the root nodes
+   */
+  function insertChildren(
+    index: number,
+    level: number,
+    children: T[] | Promise<T[]>,
+    parent?: T
+  ): void {
+    if (Array.isArray(children)) {
+      insertRows(index, createRows(children, level));
+      return;
+    }
+    const loadingRow: TreeRow<T> = {
+      node: undefined,
+      level,
+      position: 0,
+      siblings: 1,
+      expanded: false,
+      loading: true,
+      failed: false,
+    };
+    insertRows(index, [loadingRow]);
+    children.then(
+      (nodes) => {
+        // --- The parent may have been collapsed in the meantime
+        const loadingIndex = rows.current.indexOf(loadingRow);
+        if (mounted.current && loadingIndex >= 0) {
+          removeRows(loadingIndex, 1);
+          insertRows(loadingIndex, createRows(nodes, level));
+        }
+      },
+      (error) => {
+        if (!mounted.current) {
+          return;
+        }
+        loadingRow.loading = false;
+        loadingRow.failed = true;
+        listApi.current?.forceRefresh();
+        onLoadError?.(parent, error);
+      }
+    );
+  }
+
+  /**
+   * Inserts rows into the tree
+   * @param index The index to insert the rows at
+   * @param newRows Rows to insert
+   */
+  function insertRows(index: number, newRows: TreeRow<T>[]): void {
+    if (newRows.length === 0) {
+      return;
+    }
+    rows.current = rows.current
+      .slice(0, index)
+      .concat(newRows, rows.current.slice(index));
+    listApi.current?.insertItems(index, newRows.length);
+    setItemsCount(rows.current.length);
+  }
+
+  /**
+   * Removes rows from the tree
+   * @param index The index of the first row to remove
+   * @param count The number of rows to remove
+   */
+  function removeRows(index: number, count: number): void {
+    if (count <= 0) {
+      return;
+    }
+    rows.current = rows.current
+      .slice(0, index)
+      .concat(rows.current.slice(index + count));
+    listApi.current?.removeItems(index, count);
+    setItemsCount(rows.current.length);
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Helper types and functions
+
+/**
+ * A visible row of the tree; loading (and failed) rows have no node. The
+ * position is the index of the node among its siblings.
+ */
+type TreeRow<T> = {
+  node: T | undefined;
+  level: number;
+  position: number;
+  siblings: number;
+  expanded: boolean;
+  loading: boolean;
+  failed: boolean;
+};
+
+/**
+ * Creates the rows of the specified nodes
+ * @param nodes Tree nodes
+ * @param level Tree level of the nodes
+ */
+function createRows<T>(nodes: T[], level: number): TreeRow<T>[] {
+  return nodes.map((node, position) => ({
+    node,
+    level,
+    position,
+    siblings: nodes.length,
+    expanded: false,
+    loading: false,
+    failed: false,
+  }));
+}
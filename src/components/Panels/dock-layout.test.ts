@@ -0,0 +1,137 @@
+import {
+  assignSplitIds,
+  DockLayoutNode,
+  DockSplitNode,
+  findViewPath,
+  getLayoutNode,
+  getLayoutViews,
+  insertView,
+  normalizeLayout,
+  removeView,
+} from "./dock-layout";
+
+/**
+ * Creates a view node
+ */
+function view(viewId: string): DockLayoutNode {
+  return { type: "view", viewId };
+}
+
+describe("dock layout", () => {
+  const layout: DockLayoutNode = {
+    type: "split",
+    orientation: "horizontal",
+    children: [
+      view("a"),
+      {
+        type: "split",
+        orientation: "vertical",
+        children: [view("b"), view("c")],
+      },
+    ],
+    sizes: [100, 200],
+  };
+
+  it("finds views", () => {
+    expect(findViewPath(layout, "a")).toEqual([0]);
+    expect(findViewPath(layout, "c")).toEqual([1, 1]);
+    expect(findViewPath(layout, "x")).toBeNull();
+    expect(getLayoutViews(layout)).toEqual(["a", "b", "c"]);
+    expect(getLayoutNode(layout, [1, 0])).toEqual(view("b"));
+    expect(getLayoutNode(layout, [0, 0])).toBeNull();
+  });
+
+  it("inserts the first view", () => {
+    expect(insertView(null, "a", "left")).toEqual(view("a"));
+  });
+
+  it("inserts a view among the siblings with the same orientation", () => {
+    const result = insertView(layout, "d", "bottom", "b");
+    expect(getLayoutViews(result)).toEqual(["a", "b", "d", "c"]);
+    expect(findViewPath(result, "d")).toEqual([1, 1]);
+  });
+
+  it("splits the target view in the other orientation", () => {
+    const result = insertView(layout, "d", "left", "b");
+    expect(getLayoutNode(result, [1, 0])).toEqual({
+      type: "split",
+      orientation: "horizontal",
+      children: [view("d"), view("b")],
+    });
+  });
+
+  it("docks a view to the entire layout", () => {
+    const result = insertView(layout, "d", "right");
+    expect(findViewPath(result, "d")).toEqual([2]);
+
+    // --- An unknown target means the entire layout, too
+    expect(insertView(layout, "d", "right", "x")).toEqual(result);
+  });
+
+  it("moves a view that is already in the layout", () => {
+    const result = insertView(layout, "c", "left", "a");
+    expect(result).toEqual({
+      type: "split",
+      orientation: "horizontal",
+      children: [view("c"), view("a"), view("b")],
+    });
+  });
+
+  it("removes a view and collapses its split", () => {
+    expect(removeView(layout, "b")).toEqual({
+      type: "split",
+      orientation: "horizontal",
+      children: [view("a"), view("c")],
+    });
+    expect(removeView(view("a"), "a")).toBeNull();
+    expect(removeView(layout, "x")).toBe(layout);
+  });
+
+  it("normalizes nested splits", () => {
+    const nested: DockLayoutNode = {
+      type: "split",
+      orientation: "horizontal",
+      children: [
+        { type: "split", orientation: "horizontal", children: [view("a")] },
+        { type: "split", orientation: "vertical", children: [] },
+        {
+          type: "split",
+          orientation: "horizontal",
+          children: [view("b"), view("c")],
+        },
+      ],
+    };
+    expect(normalizeLayout(nested)).toEqual({
+      type: "split",
+      orientation: "horizontal",
+      children: [view("a"), view("b"), view("c")],
+    });
+    expect(normalizeLayout(layout)).toBe(layout);
+  });
+
+  it("assigns unused IDs to the splits", () => {
+    const withIds = assignSplitIds({ ...layout, id: "split-1" });
+    expect(withIds).toEqual({
+      ...layout,
+      id: "split-1",
+      children: [
+        view("a"),
+        { ...(layout as DockSplitNode).children[1], id: "split-2" },
+      ],
+    });
+    expect(assignSplitIds(withIds)).toBe(withIds);
+  });
+
+  it("keeps the split IDs while views change", () => {
+    const withIds = assignSplitIds(layout) as DockSplitNode;
+    const innerId = (withIds.children[1] as DockSplitNode).id;
+    expect(withIds.id).not.toBe(innerId);
+
+    const inserted = insertView(withIds, "d", "bottom", "b");
+    expect((getLayoutNode(inserted, [1]) as DockSplitNode).id).toBe(innerId);
+    expect((removeView(withIds, "b") as DockSplitNode).id).toBe(withIds.id);
+    expect((insertView(withIds, "d", "right") as DockSplitNode).id).toBe(
+      withIds.id
+    );
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * The orientation of a split node in the dock layout
+ */
+export type DockOrientation = "horizontal" | "vertical";
+
+/**
+ * The edge of a view (or of the entire layout) to dock a view to
+ */
+export type DockPosition = "left" | "right" | "top" | "bottom";
+
+/**
+ * A node that splits its area among its children. The ID identifies the
+ * node while views are added to or removed from it.
+ */
+export type DockSplitNode = {
+  type: "split";
+  id?: string;
+  orientation: DockOrientation;
+  children: DockLayoutNode[];
+  sizes?: number[];
+};
+
+/**
+ * A leaf node that displays a view from the view registry
+ */
+export type DockViewNode = {
+  type: "view";
+  viewId: string;
+};
+
+/**
+ * A node of the serializable dock layout tree
+ */
+export type DockLayoutNode = DockSplitNode | DockViewNode;
+
+/**
+ * Gets the path (child indexes from the root) of the node with the
+ * specified view
+ * @param node Root node to search
+ * @param viewId View to find
+ * @returns The path of the view node; null, if not found
+ */
+export function findViewPath(
+  node: DockLayoutNode | null,
+  viewId: string
+): number[] | null {
+  if (!node) {
+    return null;
+  }
+  if (node.type === "view") {
+    return node.viewId === viewId ? [] : null;
+  }
+  for (let i = 0; i < node.children.length; i++) {
+    const childPath = findViewPath(node.children[i], viewId);
+    if (childPath) {
+      return [i, ...childPath];
+    }
+  }
+  return null;
+}
+
+/**
+ * Gets the IDs of all views in the layout
+ * @param node Root node
+ */
+export function getLayoutViews(node: DockLayoutNode | null): string[] {
+  if (!node) {
+    return [];
+  }
+  return node.type === "view"
+    ? [node.viewId]
+    : node.children.flatMap((child) => getLayoutViews(child));
+}
+
+/**
+ * Replaces the node at the specified path
+ * @param node Root node
+ * @param path Path of the node to replace
+ * @param update Function that creates the new node (null removes the node)
+ * @returns The new root node
+ */
+export function updateLayoutNode(
+  node: DockLayoutNode,
+  path: number[],
+  update: (node: DockLayoutNode) => DockLayoutNode | null
+): DockLayoutNode | null {
+  if (path.length === 0) {
+    return update(node);
+  }
+  if (node.type !== "split") {
+    return node;
+  }
+  const [index, ...rest] = path;
+  const child = node.children[index];
+  if (!child) {
+    return node;
+  }
+  const newChild = updateLayoutNode(child, rest, update);
+  if (newChild === child) {
+    return node;
+  }
+  if (newChild) {
+    const children = [...node.children];
+    children[index] = newChild;
+    return { ...node, children };
+  }
+
+  // --- The child has been removed, the remaining sizes are not valid anymore
+  return {
+    type: "split",
+    id: node.id,
+    orientation: node.orientation,
+    children: node.children.filter((_, i) => i !== index),
+  };
+}
+
+/**
+ * Removes the specified view from the layout
+ * @param root Root node
+ * @param viewId View to remove
+ * @returns The new root node
+ */
+export function removeView(
+  root: DockLayoutNode | null,
+  viewId: string
+): DockLayoutNode | null {
+  const path = findViewPath(root, viewId);
+  if (!root || !path) {
+    return root;
+  }
+  return normalizeLayout(updateLayoutNode(root, path, () => null));
+}
+
+/**
+ * Inserts a view next to a target view, or to an edge of the entire layout.
+ * If the view is already in the layout, it is moved.
+ * @param root Root node
+ * @param viewId View to insert
+ * @param position The edge to dock the view to
+ * @param targetViewId Target view; the entire layout, if undefined
+ * @returns The new root node
+ */
+export function insertView(
+  root: DockLayoutNode | null,
+  viewId: string,
+  position: DockPosition,
+  targetViewId?: string
+): DockLayoutNode {
+  const viewNode: DockViewNode = { type: "view", viewId };
+  if (viewId === targetViewId) {
+    return root ?? viewNode;
+  }
+  const withoutView = removeView(root, viewId);
+  if (!withoutView) {
+    return viewNode;
+  }
+
+  // --- Find the node to dock to
+  const targetPath =
+    targetViewId === undefined ? [] : findViewPath(withoutView, targetViewId);
+  if (!targetPath) {
+    // --- Dock to the entire layout when the target is not found
+    return insertView(withoutView, viewId, position);
+  }
+  const orientation = getOrientation(position);
+  const before = position === "left" || position === "top";
+
+  // --- Insert among the siblings when the parent has the same orientation
+  if (targetPath.length > 0) {
+    const parentPath = targetPath.slice(0, -1);
+    const targetIndex = targetPath[targetPath.length - 1];
+    const parent = getLayoutNode(withoutView, parentPath);
+    if (parent?.type === "split" && parent.orientation === orientation) {
+      return normalizeLayout(
+        updateLayoutNode(withoutView, parentPath, (node) => {
+          const children = [...(node as DockSplitNode).children];
+          children.splice(before ? targetIndex : targetIndex + 1, 0, viewNode);
+          return { type: "split", id: parent.id, orientation, children };
+        })
+      );
+    }
+  }
+
+  // --- Split the target node
+  return normalizeLayout(
+    updateLayoutNode(withoutView, targetPath, (node) => ({
+      type: "split",
+      orientation,
+      children: before ? [viewNode, node] : [node, viewNode],
+    }))
+  );
+}
+
+/**
+ * Gets the node at the specified path
+ * @param node Root node
+ * @param path Node path
+ */
+export function getLayoutNode(
+  node: DockLayoutNode | null,
+  path: number[]
+): DockLayoutNode | null {
+  let current = node;
+  for (const index of path) {
+    if (current?.type !== "split") {
+      return null;
+    }
+    current = current.children[index] ?? null;
+  }
+  return current;
+}
+
+/**
+ * Removes the empty and single-child splits, and merges the nested splits
+ * with the same orientation
+ * @param node Node to normalize
+ * @returns The normalized node
+ */
+export function normalizeLayout(
+  node: DockLayoutNode | null
+): DockLayoutNode | null {
+  if (!node || node.type === "view") {
+    return node;
+  }
+  let changed = false;
+  let id = node.id;
+  const children: DockLayoutNode[] = [];
+  for (const child of node.children) {
+    const normalized = normalizeLayout(child);
+    if (normalized !== child) {
+      changed = true;
+    }
+    if (!normalized) {
+      continue;
+    }
+    if (
+      normalized.type === "split" &&
+      normalized.orientation === node.orientation
+    ) {
+      // --- Merge the nested split; a new parent takes over its ID
+      children.push(...normalized.children);
+      id = id ?? normalized.id;
+      changed = true;
+    } else {
+      children.push(normalized);
+    }
+  }
+  if (children.length === 0) {
+    return null;
+  }
+  if (children.length === 1) {
+    return children[0];
+  }
+  return changed
+    ? { type: "split", id, orientation: node.orientation, children }
+    : node;
+}
+
+/**
+ * Assigns an unused ID to the split nodes without an ID
+ * @param root Root node
+ * @returns The new root node; the original one, if all splits have an ID
+ */
+export function assignSplitIds(
+  root: DockLayoutNode | null
+): DockLayoutNode | null {
+  const usedIds = new Set<string>();
+  collectSplitIds(root, usedIds);
+  let nextId = 1;
+  return assignMissingIds(root, () => {
+    while (usedIds.has(`split-${nextId}`)) {
+      nextId++;
+    }
+    return `split-${nextId++}`;
+  });
+}
+
+/**
+ * Assigns a new ID to the split nodes without an ID
+ * @param node Root node
+ * @param createId Function that creates a new ID
+ * @returns The new root node; the original one, if nothing has changed
+ */
+function assignMissingIds(
+  node: DockLayoutNode | null,
+  createId: () => string
+): DockLayoutNode | null {
+  if (!node || node.type === "view") {
+    return node;
+  }
+  const children = node.children.map(
+    (child) => assignMissingIds(child, createId)!
+  );
+  if (
+    node.id !== undefined &&
+    children.every((child, index) => child === node.children[index])
+  ) {
+    return node;
+  }
+  return { ...node, id: node.id ?? createId(), children };
+}
+
+/**
+ * Collects the IDs of the split nodes
+ * @param node Root node
+ * @param ids The set to add the IDs to
+ */
+function collectSplitIds(node: DockLayoutNode | null, ids: Set<string>): void {
+  if (node?.type === "split") {
+    if (node.id !== undefined) {
+      ids.add(node.id);
+    }
+    node.children.forEach((child) => collectSplitIds(child, ids));
+  }
+}
+
+/**
+ * Gets the split orientation that belongs to a dock position
+ * @param position Dock position
+ */
+function getOrientation(position: DockPosition): DockOrientation {
+  return position === "left" || position === "right"
+    ? "horizontal"
+    : "vertical";
+}
@@ -2,6 +2,19 @@ export { Panel } from "./Panel";
 export { RowPanel } from "./RowPanel";
 export { ColumnPanel } from "./ColumnPanel";
 export { SplitPanel } from "./SplitPanel";
+export { MultiSplitPanel } from "./MultiSplitPanel";
+export { DockLayout } from "./DockLayout";
 export { FloatingScrollbar } from "./FloatingScrollbar";
 export { ScrollablePanel } from "./ScrollablePanel";
+export { TabPanel } from "./TabPanel";
 export { VirtualizedList } from "./VirtualizedList"
+export { VirtualizedGrid } from "./VirtualizedGrid";
+export { VirtualizedTree } from "./VirtualizedTree";
+export {
+  LayoutPersistenceProvider,
+  createLayoutStore,
+  createLocalLayoutStorage,
+  createMemoryLayoutStorage,
+  renamePanelState,
+  useSavedPanelState,
+} from "./LayoutPersistence";
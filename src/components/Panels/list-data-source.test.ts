@@ -0,0 +1,87 @@
+import { createPageCache } from "./list-data-source";
+
+/**
+ * Creates the items of the specified range; each item is its own index
+ */
+function range(start: number, end: number): number[] {
+  const items: number[] = [];
+  for (let i = start; i < end; i++) {
+    items.push(i);
+  }
+  return items;
+}
+
+/**
+ * Creates a cache with the pages of a list of items
+ */
+function createFilledCache(count: number, pageSize: number) {
+  const cache = createPageCache<number>(100);
+  for (let page = 0; page * pageSize < count; page++) {
+    cache.set(
+      page,
+      range(page * pageSize, Math.min(count, (page + 1) * pageSize))
+    );
+  }
+  return cache;
+}
+
+describe("createPageCache", () => {
+  it("drops the least recently used page when full", () => {
+    const cache = createPageCache<number>(2);
+    cache.set(0, [0]);
+    cache.set(1, [1]);
+    cache.get(0);
+    cache.set(2, [2]);
+    expect(cache.has(0)).toBe(true);
+    expect(cache.has(1)).toBe(false);
+    expect(cache.has(2)).toBe(true);
+  });
+
+  it("drops pages when shrinking", () => {
+    const cache = createPageCache<number>(3);
+    cache.set(0, [0]);
+    cache.set(1, [1]);
+    cache.set(2, [2]);
+    cache.resize(1);
+    expect(cache.has(0)).toBe(false);
+    expect(cache.has(1)).toBe(false);
+    expect(cache.get(2)).toEqual([2]);
+  });
+
+  it("clears all pages", () => {
+    const cache = createFilledCache(30, 10);
+    cache.clear();
+    expect(cache.has(0)).toBe(false);
+    expect(cache.has(2)).toBe(false);
+  });
+
+  it("shifts the pages after inserting items", () => {
+    const cache = createFilledCache(40, 10);
+    cache.shift(15, 5, 45, 10);
+    expect(cache.get(0)).toEqual(range(0, 10));
+    expect(cache.has(1)).toBe(false);
+    expect(cache.get(2)).toEqual(range(15, 25));
+    expect(cache.get(3)).toEqual(range(25, 35));
+    expect(cache.get(4)).toEqual(range(35, 40));
+  });
+
+  it("shifts the pages after removing items", () => {
+    const cache = createFilledCache(40, 10);
+    cache.shift(15, -5, 35, 10);
+    expect(cache.get(0)).toEqual(range(0, 10));
+    expect(cache.has(1)).toBe(false);
+    expect(cache.get(2)).toEqual(range(25, 35));
+    expect(cache.get(3)).toEqual(range(35, 40));
+  });
+
+  it("does not rebuild pages with items missing from the cache", () => {
+    const cache = createPageCache<number>(10);
+    cache.set(0, range(0, 10));
+    cache.set(2, range(20, 30));
+    cache.shift(0, 5, 35, 10);
+    expect(cache.has(0)).toBe(false);
+    expect(cache.has(1)).toBe(false);
+    expect(cache.has(2)).toBe(false);
+    expect(cache.get(3)).toEqual(range(25, 30));
+  });
+});
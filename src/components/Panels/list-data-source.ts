@@ -0,0 +1,157 @@
+/**
+ * Provides the items of a virtualized list asynchronously, page by page
+ */
+export type ListDataSource<T = unknown> = {
+  /**
+   * Retrieves the items of the specified range (both ends inclusive)
+   */
+  requestRange: (start: number, end: number) => Promise<T[]>;
+
+  /**
+   * The number of items in a page (100 by default)
+   */
+  pageSize?: number;
+
+  /**
+   * The maximum number of pages kept in the cache (50 by default)
+   */
+  maxCachedPages?: number;
+};
+
+/**
+ * Caches the loaded pages of a data source, and drops the least recently
+ * used page when the cache is full
+ */
+export type PageCache<T = unknown> = {
+  /**
+   * Gets the items of a page, and marks the page as recently used
+   */
+  get: (page: number) => T[] | undefined;
+
+  /**
+   * Tells if the page is in the cache
+   */
+  has: (page: number) => boolean;
+
+  /**
+   * Stores the items of a page
+   */
+  set: (page: number, items: T[]) => void;
+
+  /**
+   * Removes all pages from the cache
+   */
+  clear: () => void;
+
+  /**
+   * Changes the maximum number of pages in the cache
+   */
+  resize: (maxPages: number) => void;
+
+  /**
+   * Moves the cached items after inserting (positive delta) or removing
+   * (negative delta) items. The pages before the change are kept, the page
+   * the change touches is dropped, and the following pages are rebuilt from
+   * the cached items that move into them.
+   */
+  shift: (
+    index: number,
+    delta: number,
+    count: number,
+    pageSize: number
+  ) => void;
+};
+
+/**
+ * Creates a page cache
+ * @param maxPages The maximum number of pages in the cache
+ */
+export function createPageCache<T = unknown>(maxPages: number): PageCache<T> {
+  // --- Map keeps the insertion order; the first page is the least recently
+  // --- used one
+  let pages = new Map<number, T[]>();
+  return {
+    get: (page) => {
+      const items = pages.get(page);
+      if (items) {
+        pages.delete(page);
+        pages.set(page, items);
+      }
+      return items;
+    },
+    has: (page) => pages.has(page),
+    set,
+    clear: () => pages.clear(),
+    resize: (newMaxPages) => {
+      maxPages = newMaxPages;
+      dropOldPages();
+    },
+    shift: (index, delta, count, pageSize) => {
+      const oldPages = pages;
+      pages = new Map();
+
+      // --- The new pages from this one on contain only moved items
+      const firstMoved = Math.ceil((index + Math.max(delta, 0)) / pageSize);
+      oldPages.forEach((items, page) => {
+        if ((page + 1) * pageSize <= index) {
+          // --- The page is before the change
+          set(page, items);
+          return;
+        }
+
+        // --- Rebuild the pages the items of this page move to
+        const first = Math.max(
+          firstMoved,
+          Math.floor((page * pageSize + delta) / pageSize)
+        );
+        const last = Math.floor(
+          (page * pageSize + items.length - 1 + delta) / pageSize
+        );
+        for (let newPage = first; newPage <= last; newPage++) {
+          const newItems = pages.has(newPage)
+            ? undefined
+            : collectItems(newPage);
+          if (newItems) {
+            set(newPage, newItems);
+          }
+        }
+      });
+
+      /**
+       * Collects the items of a new page from the old pages
+       */
+      function collectItems(newPage: number): T[] | undefined {
+        const items: T[] = [];
+        const end = Math.min(count, (newPage + 1) * pageSize);
+        for (let i = newPage * pageSize; i < end; i++) {
+          const oldIndex = i - delta;
+          const oldItems = oldPages.get(Math.floor(oldIndex / pageSize));
+          const offset = oldIndex % pageSize;
+          if (!oldItems || offset >= oldItems.length) {
+            return undefined;
+          }
+          items.push(oldItems[offset]);
+        }
+        return items.length > 0 ? items : undefined;
+      }
+    },
+  };
+
+  /**
+   * Stores the items of a page as the most recently used one
+   */
+  function set(page: number, items: T[]): void {
+    pages.delete(page);
+    pages.set(page, items);
+    dropOldPages();
+  }
+
+  /**
+   * Drops the least recently used pages while the cache is full
+   */
+  function dropOldPages(): void {
+    while (pages.size > Math.max(1, maxPages)) {
+      pages.delete(pages.keys().next().value);
+    }
+  }
+}
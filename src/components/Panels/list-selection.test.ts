@@ -0,0 +1,191 @@
+import {
+  createSelection,
+  getClickAction,
+  getNavigationAction,
+  isSelected,
+  limitSelection,
+  ListSelection,
+  shiftSelection,
+  updateSelection,
+} from "./list-selection";
+
+/**
+ * Creates a selection of the specified ranges
+ */
+function selectionOf(
+  ranges: [number, number][],
+  focusedIndex = -1
+): ListSelection {
+  return createSelection(
+    ranges.map(([startIndex, endIndex]) => ({ startIndex, endIndex })),
+    focusedIndex
+  );
+}
+
+/**
+ * Gets the ranges of a selection as tuples
+ */
+function rangesOf(selection: ListSelection): [number, number][] {
+  return selection.ranges.map((range) => [range.startIndex, range.endIndex]);
+}
+
+describe("list selection", () => {
+  it("merges overlapping and adjacent ranges", () => {
+    const selection = selectionOf([
+      [10, 12],
+      [0, 2],
+      [3, 4],
+      [11, 15],
+    ]);
+    expect(rangesOf(selection)).toEqual([
+      [0, 4],
+      [10, 15],
+    ]);
+  });
+
+  it("tells if an item is selected", () => {
+    const selection = selectionOf([
+      [2, 4],
+      [8, 8],
+    ]);
+    expect([1, 2, 4, 5, 8, 9].map((i) => isSelected(selection, i))).toEqual([
+      false,
+      true,
+      true,
+      false,
+      true,
+      false,
+    ]);
+  });
+
+  it("maps modifier keys to actions", () => {
+    expect(getClickAction("extended", true, false)).toBe("extend");
+    expect(getClickAction("extended", false, true)).toBe("toggle");
+    expect(getClickAction("multiple", false, false)).toBe("toggle");
+    expect(getClickAction("single", true, true)).toBe("select");
+    expect(getNavigationAction("extended", false, true)).toBe("focus");
+    expect(getNavigationAction("multiple", true, false)).toBe("focus");
+  });
+
+  it("selects a single item", () => {
+    const selection = updateSelection(
+      selectionOf([[0, 5]]),
+      "extended",
+      7,
+      "select"
+    );
+    expect(rangesOf(selection)).toEqual([[7, 7]]);
+    expect(selection.focusedIndex).toBe(7);
+    expect(selection.anchorIndex).toBe(7);
+  });
+
+  it("toggles items, splitting and merging ranges", () => {
+    let selection = selectionOf([[0, 4]]);
+    selection = updateSelection(selection, "extended", 2, "toggle");
+    expect(rangesOf(selection)).toEqual([
+      [0, 1],
+      [3, 4],
+    ]);
+    selection = updateSelection(selection, "extended", 2, "toggle");
+    expect(rangesOf(selection)).toEqual([[0, 4]]);
+  });
+
+  it("extends the selection from the anchor with a single range", () => {
+    let selection = updateSelection(createSelection(), "extended", 5, "select");
+    selection = updateSelection(selection, "extended", 9_999_999, "extend");
+    expect(rangesOf(selection)).toEqual([[5, 9_999_999]]);
+    selection = updateSelection(selection, "extended", 2, "extend");
+    expect(rangesOf(selection)).toEqual([[2, 5]]);
+    expect(selection.anchorIndex).toBe(5);
+    expect(selection.focusedIndex).toBe(2);
+  });
+
+  it("selects one item at most in single mode", () => {
+    const selection = updateSelection(
+      selectionOf([[3, 3]], 3),
+      "single",
+      8,
+      "extend"
+    );
+    expect(rangesOf(selection)).toEqual([[8, 8]]);
+  });
+
+  it("does not change the selection in none mode", () => {
+    const selection = selectionOf([[3, 3]], 3);
+    expect(updateSelection(selection, "none", 8, "select")).toBe(selection);
+  });
+
+  it("moves only the focus", () => {
+    const selection = updateSelection(
+      selectionOf([[3, 4]], 3),
+      "extended",
+      8,
+      "focus"
+    );
+    expect(rangesOf(selection)).toEqual([[3, 4]]);
+    expect(selection.focusedIndex).toBe(8);
+    expect(selection.anchorIndex).toBe(3);
+  });
+
+  it("shifts the selection after inserting items", () => {
+    const selection = shiftSelection(
+      selectionOf(
+        [
+          [0, 1],
+          [4, 8],
+          [12, 12],
+        ],
+        6
+      ),
+      6,
+      3
+    );
+    expect(rangesOf(selection)).toEqual([
+      [0, 1],
+      [4, 5],
+      [9, 11],
+      [15, 15],
+    ]);
+    expect(selection.focusedIndex).toBe(9);
+  });
+
+  it("shifts the selection after removing items", () => {
+    const selection = shiftSelection(
+      selectionOf(
+        [
+          [0, 1],
+          [4, 8],
+          [12, 12],
+        ],
+        5
+      ),
+      5,
+      -5
+    );
+    expect(rangesOf(selection)).toEqual([
+      [0, 1],
+      [4, 4],
+      [7, 7],
+    ]);
+    expect(selection.focusedIndex).toBe(-1);
+  });
+
+  it("drops the items out of the list", () => {
+    const selection = limitSelection(
+      selectionOf(
+        [
+          [0, 1],
+          [4, 8],
+          [12, 12],
+        ],
+        12
+      ),
+      6
+    );
+    expect(rangesOf(selection)).toEqual([
+      [0, 1],
+      [4, 5],
+    ]);
+    expect(selection.focusedIndex).toBe(-1);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * The selection mode of a list
+ * "none": Items cannot be selected
+ * "single": At most one item is selected
+ * "multiple": Clicking an item toggles its selection
+ * "extended": Shift and Ctrl modify the selection, as in file managers
+ */
+export type SelectionMode = "none" | "single" | "multiple" | "extended";
+
+/**
+ * How a user action changes the selection
+ * "select": Selects only the item
+ * "toggle": Toggles the selection of the item
+ * "extend": Selects the range between the anchor and the item
+ * "focus": Moves only the focus to the item
+ */
+export type SelectionAction = "select" | "toggle" | "extend" | "focus";
+
+/**
+ * A range of selected items; both ends are inclusive
+ */
+export type SelectionRange = {
+  startIndex: number;
+  endIndex: number;
+};
+
+/**
+ * The selection state of a list. The selected items are stored as ranges
+ * in ascending order, so selecting millions of items with a single range
+ * costs no more than selecting one.
+ */
+export type ListSelection = {
+  ranges: SelectionRange[];
+  focusedIndex: number;
+  anchorIndex: number;
+};
+
+/**
+ * Creates a selection
+ * @param ranges The selected ranges in any order; they may overlap
+ * @param focusedIndex The focused (and anchor) item
+ */
+export function createSelection(
+  ranges: SelectionRange[] = [],
+  focusedIndex = -1
+): ListSelection {
+  return {
+    ranges: normalizeRanges(ranges),
+    focusedIndex,
+    anchorIndex: focusedIndex,
+  };
+}
+
+/**
+ * Tells if the specified item is selected
+ * @param selection The current selection
+ * @param index Item index
+ */
+export function isSelected(selection: ListSelection, index: number): boolean {
+  const ranges = selection.ranges;
+  let low = 0;
+  let high = ranges.length - 1;
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    const range = ranges[middle];
+    if (index < range.startIndex) {
+      high = middle - 1;
+    } else if (index > range.endIndex) {
+      low = middle + 1;
+    } else {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Gets the action a click with the specified modifier keys means in a
+ * selection mode
+ * @param mode Selection mode
+ * @param shiftKey Is the Shift key pressed?
+ * @param ctrlKey Is the Ctrl (or Meta) key pressed?
+ */
+export function getClickAction(
+  mode: SelectionMode,
+  shiftKey: boolean,
+  ctrlKey: boolean
+): SelectionAction {
+  switch (mode) {
+    case "multiple":
+      return "toggle";
+    case "extended":
+      return shiftKey ? "extend" : ctrlKey ? "toggle" : "select";
+    default:
+      return "select";
+  }
+}
+
+/**
+ * Gets the action a navigation key with the specified modifier keys means
+ * in a selection mode
+ * @param mode Selection mode
+ * @param shiftKey Is the Shift key pressed?
+ * @param ctrlKey Is the Ctrl (or Meta) key pressed?
+ */
+export function getNavigationAction(
+  mode: SelectionMode,
+  shiftKey: boolean,
+  ctrlKey: boolean
+): SelectionAction {
+  switch (mode) {
+    case "multiple":
+      return "focus";
+    case "extended":
+      return shiftKey ? "extend" : ctrlKey ? "focus" : "select";
+    default:
+      return "select";
+  }
+}
+
+/**
+ * Applies a user action to the selection
+ * @param selection The current selection
+ * @param mode Selection mode
+ * @param index The index of the item the action targets
+ * @param action Selection action
+ * @returns The new selection
+ */
+export function updateSelection(
+  selection: ListSelection,
+  mode: SelectionMode,
+  index: number,
+  action: SelectionAction
+): ListSelection {
+  if (mode === "none") {
+    return selection;
+  }
+  if (mode === "single" && action !== "focus") {
+    action = "select";
+  }
+  switch (action) {
+    case "focus":
+      return { ...selection, focusedIndex: index };
+    case "toggle": {
+      const ranges = isSelected(selection, index)
+        ? removeRange(selection.ranges, index, index)
+        : normalizeRanges([
+            ...selection.ranges,
+            { startIndex: index, endIndex: index },
+          ]);
+      return { ranges, focusedIndex: index, anchorIndex: index };
+    }
+    case "extend": {
+      const anchorIndex =
+        selection.anchorIndex >= 0 ? selection.anchorIndex : index;
+      return {
+        ranges: [
+          {
+            startIndex: Math.min(anchorIndex, index),
+            endIndex: Math.max(anchorIndex, index),
+          },
+        ],
+        focusedIndex: index,
+        anchorIndex,
+      };
+    }
+    default:
+      return createSelection([{ startIndex: index, endIndex: index }], index);
+  }
+}
+
+/**
+ * Shifts the selection after inserting or removing items
+ * @param selection The current selection
+ * @param index The index of the first inserted or removed item
+ * @param delta The number of inserted (positive) or removed (negative) items
+ * @returns The new selection
+ */
+export function shiftSelection(
+  selection: ListSelection,
+  index: number,
+  delta: number
+): ListSelection {
+  const shift = (itemIndex: number) => {
+    if (itemIndex < index) {
+      return itemIndex;
+    }
+    if (delta < 0 && itemIndex < index - delta) {
+      // --- The item has been removed
+      return -1;
+    }
+    return itemIndex + delta;
+  };
+  let ranges: SelectionRange[];
+  if (delta < 0) {
+    ranges = removeRange(selection.ranges, index, index - delta - 1).map(
+      (range) =>
+        range.startIndex < index
+          ? range
+          : {
+              startIndex: range.startIndex + delta,
+              endIndex: range.endIndex + delta,
+            }
+    );
+  } else {
+    // --- The inserted items are not selected, so they split a range
+    ranges = [];
+    selection.ranges.forEach((range) => {
+      if (range.endIndex < index) {
+        ranges.push(range);
+      } else if (range.startIndex >= index) {
+        ranges.push({
+          startIndex: range.startIndex + delta,
+          endIndex: range.endIndex + delta,
+        });
+      } else {
+        ranges.push({ startIndex: range.startIndex, endIndex: index - 1 });
+        ranges.push({
+          startIndex: index + delta,
+          endIndex: range.endIndex + delta,
+        });
+      }
+    });
+  }
+  return {
+    ranges: normalizeRanges(ranges),
+    focusedIndex: shift(selection.focusedIndex),
+    anchorIndex: shift(selection.anchorIndex),
+  };
+}
+
+/**
+ * Removes the items from the selection that are out of the list
+ * @param selection The current selection
+ * @param count The number of items in the list
+ * @returns The new selection
+ */
+export function limitSelection(
+  selection: ListSelection,
+  count: number
+): ListSelection {
+  return {
+    ranges: removeRange(selection.ranges, count, Infinity),
+    focusedIndex: selection.focusedIndex < count ? selection.focusedIndex : -1,
+    anchorIndex: selection.anchorIndex < count ? selection.anchorIndex : -1,
+  };
+}
+
+/**
+ * Sorts the ranges, and merges the overlapping and adjacent ones
+ * @param ranges Ranges to normalize
+ */
+function normalizeRanges(ranges: SelectionRange[]): SelectionRange[] {
+  const sorted = ranges
+    .filter((range) => range.startIndex <= range.endIndex)
+    .sort((a, b) => a.startIndex - b.startIndex);
+  const merged: SelectionRange[] = [];
+  sorted.forEach((range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.startIndex <= last.endIndex + 1) {
+      merged[merged.length - 1] = {
+        startIndex: last.startIndex,
+        endIndex: Math.max(last.endIndex, range.endIndex),
+      };
+    } else {
+      merged.push(range);
+    }
+  });
+  return merged;
+}
+
+/**
+ * Removes the specified items from the ranges
+ * @param ranges Normalized ranges
+ * @param startIndex First item to remove
+ * @param endIndex Last item to remove
+ */
+function removeRange(
+  ranges: SelectionRange[],
+  startIndex: number,
+  endIndex: number
+): SelectionRange[] {
+  const result: SelectionRange[] = [];
+  ranges.forEach((range) => {
+    if (range.endIndex < startIndex || range.startIndex > endIndex) {
+      result.push(range);
+      return;
+    }
+    if (range.startIndex < startIndex) {
+      result.push({ startIndex: range.startIndex, endIndex: startIndex - 1 });
+    }
+    if (range.endIndex > endIndex) {
+      result.push({ startIndex: endIndex + 1, endIndex: range.endIndex });
+    }
+  });
+  return result;
+}
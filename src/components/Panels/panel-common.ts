@@ -13,3 +13,25 @@ export type GenericPanelProps<P = {}> = P &
     reverse?: boolean;
     onResized?: (width: number, height: number) => void;
   };
+
+/**
+ * Resolves a panel size specification to pixels
+ * @param containerSize The container's size
+ * @param panelSize Size to use when the specification cannot be resolved
+ * @param sizeSpec Size specification (pixels or percentage)
+ * @returns Resolved panel size
+ */
+export function resolvePanelSize(
+  containerSize: number,
+  panelSize: number,
+  sizeSpec: number | string
+): number {
+  if (typeof sizeSpec === "number") {
+    return sizeSpec;
+  }
+  if (sizeSpec.endsWith("%")) {
+    const percSize = parseInt(sizeSpec.substr(0, sizeSpec.length - 1));
+    return isNaN(percSize) ? panelSize : (containerSize * percSize) / 100;
+  }
+  return panelSize;
+}
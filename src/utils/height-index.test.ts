@@ -0,0 +1,138 @@
+import { createHeightIndex, HeightIndex } from "./height-index";
+
+/**
+ * Linear reference implementation of the height queries
+ */
+class LinearHeights {
+  constructor(public heights: number[]) {}
+
+  getTop(index: number): number {
+    let sum = 0;
+    for (let i = 0; i < Math.min(index, this.heights.length); i++) {
+      sum += this.heights[i];
+    }
+    return sum;
+  }
+
+  findIndex(position: number): number {
+    if (this.heights.length === 0) {
+      return -1;
+    }
+    let top = 0;
+    for (let i = 0; i < this.heights.length; i++) {
+      top += this.heights[i];
+      if (position < top) {
+        return i;
+      }
+    }
+    return this.heights.length - 1;
+  }
+}
+
+/**
+ * Creates a height index and its linear reference with pseudo-random heights
+ */
+function createPair(count: number): [HeightIndex, LinearHeights] {
+  const heights: number[] = [];
+  for (let i = 0; i < count; i++) {
+    heights.push(10 + ((i * 7) % 13));
+  }
+  return [
+    createHeightIndex(count, (i) => heights[i]),
+    new LinearHeights(heights.slice()),
+  ];
+}
+
+/**
+ * Checks that the index answers the same as the reference
+ */
+function expectSame(index: HeightIndex, reference: LinearHeights): void {
+  const count = reference.heights.length;
+  expect(index.getCount()).toBe(count);
+  expect(index.getTotalHeight()).toBe(reference.getTop(count));
+  for (let i = 0; i <= count; i++) {
+    expect(index.getTop(i)).toBe(reference.getTop(i));
+  }
+  const total = reference.getTop(count);
+  for (let pos = -5; pos <= total + 5; pos += 3) {
+    expect(index.findIndex(pos)).toBe(reference.findIndex(pos));
+  }
+}
+
+describe("createHeightIndex", () => {
+  it("handles an empty list", () => {
+    const index = createHeightIndex(0, 20);
+    expect(index.getCount()).toBe(0);
+    expect(index.getTotalHeight()).toBe(0);
+    expect(index.findIndex(100)).toBe(-1);
+  });
+
+  it("answers the same as the linear reference", () => {
+    const [index, reference] = createPair(37);
+    expectSame(index, reference);
+  });
+
+  it("updates positions after setting heights", () => {
+    const [index, reference] = createPair(50);
+    for (const i of [0, 7, 31, 49]) {
+      index.setHeight(i, 3 * i + 1);
+      reference.heights[i] = 3 * i + 1;
+    }
+    expectSame(index, reference);
+  });
+
+  it("fills all heights", () => {
+    const [index, reference] = createPair(20);
+    index.fill(15);
+    reference.heights.fill(15);
+    expectSame(index, reference);
+  });
+
+  it("inserts items", () => {
+    const [index, reference] = createPair(30);
+    index.insert(0, 2, 40);
+    reference.heights.splice(0, 0, 40, 40);
+    index.insert(15, 3, 5);
+    reference.heights.splice(15, 0, 5, 5, 5);
+    index.insert(100, 1, 25);
+    reference.heights.push(25);
+    expectSame(index, reference);
+  });
+
+  it("removes items", () => {
+    const [index, reference] = createPair(30);
+    index.remove(0, 2);
+    reference.heights.splice(0, 2);
+    index.remove(10, 5);
+    reference.heights.splice(10, 5);
+    index.remove(20, 100);
+    reference.heights.splice(20, 100);
+    expectSame(index, reference);
+  });
+
+  it("answers position queries faster than a linear scan", () => {
+    const count = 50_000;
+    const queries = 200;
+    const [index, reference] = createPair(count);
+    const total = index.getTotalHeight();
+
+    const timeQueries = (target: {
+      getTop: (index: number) => number;
+      findIndex: (position: number) => number;
+    }) => {
+      let checksum = 0;
+      const start = performance.now();
+      for (let i = 0; i < queries; i++) {
+        const item = (i * 7919) % count;
+        checksum += target.getTop(item);
+        checksum += target.findIndex((total * i) / queries);
+      }
+      return { time: performance.now() - start, checksum };
+    };
+
+    const linear = timeQueries(reference);
+    const indexed = timeQueries(index);
+    expect(indexed.checksum).toBe(linear.checksum);
+    expect(indexed.time).toBeLessThan(linear.time);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Stores item heights and answers position queries in O(log n) time. It is
+ * backed by a Fenwick tree of the heights.
+ */
+export type HeightIndex = {
+  /**
+   * Gets the number of items
+   */
+  getCount: () => number;
+
+  /**
+   * Gets the height of the specified item
+   */
+  getHeight: (index: number) => number;
+
+  /**
+   * Gets the top position of the specified item
+   */
+  getTop: (index: number) => number;
+
+  /**
+   * Gets the total height of the items
+   */
+  getTotalHeight: () => number;
+
+  /**
+   * Sets the height of the specified item
+   */
+  setHeight: (index: number, height: number) => void;
+
+  /**
+   * Sets the height of all items
+   */
+  fill: (height: number) => void;
+
+  /**
+   * Gets the index of the item that contains the specified position.
+   * Returns -1 if there are no items.
+   */
+  findIndex: (position: number) => number;
+
+  /**
+   * Inserts new items with the specified height
+   */
+  insert: (index: number, count: number, height: number) => void;
+
+  /**
+   * Removes items from the specified index
+   */
+  remove: (index: number, count: number) => void;
+};
+
+/**
+ * Creates a height index
+ * @param count The initial number of items
+ * @param height The initial height of items, or a function that tells the
+ * initial height of a particular item
+ */
+export function createHeightIndex(
+  count: number,
+  height: number | ((index: number) => number)
+): HeightIndex {
+  let heights = new Float64Array(count);
+  if (typeof height === "number") {
+    heights.fill(height);
+  } else {
+    for (let i = 0; i < count; i++) {
+      heights[i] = height(i);
+    }
+  }
+  let tree = buildTree(heights);
+  let totalHeight = getTop(count);
+
+  return {
+    getCount: () => heights.length,
+    getHeight: (index) => heights[index] ?? 0,
+    getTop,
+    getTotalHeight: () => totalHeight,
+    setHeight,
+    fill: (newHeight) => {
+      heights.fill(newHeight);
+      tree = buildTree(heights);
+      totalHeight = heights.length * newHeight;
+    },
+    findIndex,
+    insert: (index, insertCount, newHeight) => {
+      const insertAt = Math.max(0, Math.min(index, heights.length));
+      const newHeights = new Float64Array(heights.length + insertCount);
+      newHeights.set(heights.subarray(0, insertAt));
+      newHeights.fill(newHeight, insertAt, insertAt + insertCount);
+      newHeights.set(heights.subarray(insertAt), insertAt + insertCount);
+      rebuild(newHeights);
+    },
+    remove: (index, removeCount) => {
+      const removeAt = Math.max(0, Math.min(index, heights.length));
+      const removeEnd = Math.min(heights.length, removeAt + removeCount);
+      const newHeights = new Float64Array(
+        heights.length - (removeEnd - removeAt)
+      );
+      newHeights.set(heights.subarray(0, removeAt));
+      newHeights.set(heights.subarray(removeEnd), removeAt);
+      rebuild(newHeights);
+    },
+  };
+
+  /**
+   * Gets the sum of the heights of the items before the specified one
+   */
+  function getTop(index: number): number {
+    let sum = 0;
+    for (let i = Math.min(index, heights.length); i > 0; i -= i & -i) {
+      sum += tree[i];
+    }
+    return sum;
+  }
+
+  /**
+   * Sets the height of a particular item
+   */
+  function setHeight(index: number, newHeight: number): void {
+    if (index < 0 || index >= heights.length) {
+      return;
+    }
+    const delta = newHeight - heights[index];
+    if (delta === 0) {
+      return;
+    }
+    heights[index] = newHeight;
+    totalHeight += delta;
+    for (let i = index + 1; i <= heights.length; i += i & -i) {
+      tree[i] += delta;
+    }
+  }
+
+  /**
+   * Finds the item that contains the specified position
+   */
+  function findIndex(position: number): number {
+    const length = heights.length;
+    if (length === 0) {
+      return -1;
+    }
+    if (position <= 0) {
+      return 0;
+    }
+
+    // --- Find the number of items that end before (or at) the position
+    let index = 0;
+    let remaining = position;
+    let step = 1;
+    while (step * 2 <= length) {
+      step *= 2;
+    }
+    for (; step > 0; step >>= 1) {
+      const next = index + step;
+      if (next <= length && tree[next] <= remaining) {
+        index = next;
+        remaining -= tree[next];
+      }
+    }
+    return Math.min(index, length - 1);
+  }
+
+  /**
+   * Replaces the heights and rebuilds the tree
+   */
+  function rebuild(newHeights: Float64Array): void {
+    heights = newHeights;
+    tree = buildTree(heights);
+    totalHeight = getTop(heights.length);
+  }
+}
+
+/**
+ * Builds the Fenwick tree of the specified heights in O(n) time
+ * @param heights Item heights
+ */
+function buildTree(heights: Float64Array): Float64Array {
+  const tree = new Float64Array(heights.length + 1);
+  for (let i = 1; i <= heights.length; i++) {
+    tree[i] += heights[i - 1];
+    const parent = i + (i & -i);
+    if (parent <= heights.length) {
+      tree[parent] += tree[i];
+    }
+  }
+  return tree;
+}
@@ -2,31 +2,31 @@
  * Handles scrolling keys
  * @param element HTML element to scroll
  * @param key Key pressed
+ * @param scrollTop Current scroll position (the element's one by default)
+ * @param scrollHeight Scrollable height (the element's one by default)
  */
 export function calculateScrollPositionByKey(
   element: HTMLElement,
   key: string,
   shiftKey: boolean,
   itemHeight = 20,
-  integralHeight = false
+  integralHeight = false,
+  scrollTop = element.scrollTop,
+  scrollHeight = element.scrollHeight
 ): number {
   switch (key) {
     case "Home":
       return getPos(0);
     case "ArrowDown":
-      return getPos(element.scrollTop + itemHeight);
+      return getPos(scrollTop + itemHeight);
     case "ArrowUp":
-      return getPos(element.scrollTop - itemHeight);
+      return getPos(scrollTop - itemHeight);
     case "PageDown":
-      return getPos(
-        element.scrollTop + element.offsetHeight * (shiftKey ? 5 : 1)
-      );
+      return getPos(scrollTop + element.offsetHeight * (shiftKey ? 5 : 1));
     case "PageUp":
-      return getPos(
-        element.scrollTop - element.offsetHeight * (shiftKey ? 5 : 1)
-      );
+      return getPos(scrollTop - element.offsetHeight * (shiftKey ? 5 : 1));
     case "End":
-      return getPos((element.scrollTop = element.scrollHeight));
+      return getPos(scrollHeight);
   }
 
   function getPos(position: number): number {